@@ -1,22 +1,15 @@
 
 import React, { useState, useEffect, useRef } from 'react';
-import { GameState, AppContextState, Team, Player, UserSession, Member, AccessLog, GoogleCredentialResponse, GoogleUserPayload, GameMode } from './types';
-import { createFullDeck, calculatePlayerScore, checkGameEnd, generateGameId, calculateFinalRanking, generatePlayerId, restoreBoardArray } from './utils';
+import { GameState, GameIndexEntry, RuleViolation, ActionBase, AppContextState, Team, Player, UserSession, Member, AccessLog, GoogleCredentialResponse, GoogleUserPayload, GameMode, GameAction, DeckPresetId, AIDifficulty, TeamDecisionMode, TeamRole, ChatMessage, TeamChatLog, PlayerAid, TimeoutPolicy, Tournament, TournamentAggregation } from './types';
+import { createFullDeck, generateGameId, generatePlayerId, generateMessageId, MAX_CHAT_MESSAGE_LENGTH, generateSeed, getDefaultScoreTable, DEFAULT_BOARD_SIZE, DECK_PRESETS, getDeckPreset, TEAM_DECISION_MODES, PLAYER_AIDS, TIMEOUT_POLICIES, MAX_PLACEMENT_TIME_LIMIT, getGamePhaseLabel, TOURNAMENT_AGGREGATIONS, MAX_TOURNAMENT_GAMES } from './utils';
+import { isRuleViolation, GAME_EXPIRY_HOURS, GAME_RETENTION_HOURS } from './engine';
+import { AI_DIFFICULTIES } from './ai';
 import { GridBackground, Panel, Input, Button, Footer } from './components/UI';
 import { HostView } from './components/HostView';
 import { PlayerView } from './components/PlayerView';
 import { AdminDashboard } from './components/AdminDashboard';
 import { Hexagon, RefreshCw, Building2, Lock, LogIn, UserCog, ShieldCheck, LogOut, Sun, Moon, Trash2, Gamepad2, Dices, Users } from 'lucide-react';
-import {
-  isFirebaseConfigured,
-  subscribeToGames,
-  subscribeToMembers,
-  subscribeToLogs,
-  saveGames,
-  saveMembers,
-  saveLogs,
-  getGames
-} from './firebase';
+import { getStorageBackend, createRepository } from './repository';
 
 // --- MOCK DATA ---
 const createMockGame = (name: string, teamCount: number, started: boolean, ended: boolean, playersPerTeam: number): GameState => {
@@ -27,7 +20,7 @@ const createMockGame = (name: string, teamCount: number, started: boolean, ended
       name: `User ${i}-${j}`,
       joinedAt: new Date().toISOString()
     })),
-    board: Array(20).fill(null),
+    board: Array(DEFAULT_BOARD_SIZE).fill(null),
     score: ended ? Math.floor(Math.random() * 100) : 0,
     hasPlacedCurrentNumber: false,
     placedBy: null
@@ -44,7 +37,7 @@ const createMockGame = (name: string, teamCount: number, started: boolean, ended
     gameStarted: started,
     gameEnded: ended,
     waitingForPlacements: false,
-    currentRound: ended ? 20 : started ? 5 : 0,
+    currentRound: ended ? DEFAULT_BOARD_SIZE : started ? 5 : 0,
     finalRanking: [],
     creatorId: 'ADMIN', // Default mock creator to ADMIN
     createdAt: new Date().toISOString(),
@@ -81,11 +74,18 @@ const INITIAL_LOGS: AccessLog[] = [
   }
 ];
 
+// --- STORAGE ---
+// Rooms, members, logs and chats are read and written only through this
+// repository; which backend it uses is decided in repository.ts
+const repository = createRepository(getStorageBackend(), {
+  games: INITIAL_GAMES,
+  members: INITIAL_MEMBERS,
+  logs: INITIAL_LOGS
+});
+
 // --- LOCAL STORAGE KEYS ---
+// This device's own session, whatever the storage backend
 const STORAGE_KEYS = {
-  GAMES: 'collective_intelligence_games',
-  MEMBERS: 'collective_intelligence_members',
-  LOGS: 'collective_intelligence_logs',
   SESSION: 'collective_intelligence_session',
 };
 
@@ -168,49 +168,23 @@ const saveToStorage = <T,>(key: string, data: T): void => {
 };
 
 const App: React.FC = () => {
-  // Check if Firebase is configured
-  const useFirebase = isFirebaseConfigured();
-
   // Global Data State - Initialize with empty arrays for safety
-  // Data will be loaded from Firebase or localStorage in useEffect
+  // Data arrives through the repository subscriptions below. Only the room this
+  // client is in is held in full; the lobby reads the index (null until loaded)
   const [games, setGames] = useState<GameState[]>([]);
+  const [gameIndex, setGameIndex] = useState<GameIndexEntry[] | null>(null);
   const [members, setMembers] = useState<Member[]>([]);
   const [logs, setLogs] = useState<AccessLog[]>([]);
-  const [isDataLoaded, setIsDataLoaded] = useState(false);
 
   // SAFETY: Always ensure arrays are valid (never undefined)
   const safeGames = Array.isArray(games) ? games : [];
   const safeMembers = Array.isArray(members) ? members : [];
   const safeLogs = Array.isArray(logs) ? logs : [];
+  const lobbyGames: GameIndexEntry[] = Array.isArray(gameIndex) ? gameIndex : [];
 
-  // Load initial data from localStorage (runs once on mount)
-  useEffect(() => {
-    try {
-      const loadedGames = loadFromStorage(STORAGE_KEYS.GAMES, INITIAL_GAMES);
-      const loadedMembers = loadFromStorage(STORAGE_KEYS.MEMBERS, INITIAL_MEMBERS);
-      const loadedLogs = loadFromStorage(STORAGE_KEYS.LOGS, INITIAL_LOGS);
-
-      setGames(Array.isArray(loadedGames) ? loadedGames : INITIAL_GAMES);
-      setMembers(Array.isArray(loadedMembers) ? loadedMembers : INITIAL_MEMBERS);
-      setLogs(Array.isArray(loadedLogs) ? loadedLogs : INITIAL_LOGS);
-    } catch (e) {
-      console.error('Failed to load from localStorage, using defaults:', e);
-      setGames(INITIAL_GAMES);
-      setMembers(INITIAL_MEMBERS);
-      setLogs(INITIAL_LOGS);
-    }
-    setIsDataLoaded(true);
-  }, []);
-
-  // Track if data is from Firebase (to prevent re-saving)
-  const isFirebaseUpdate = useRef(false);
-
-  // Track recent local changes to prevent Firebase from overwriting them
-  const lastLocalChangeTime = useRef<number>(0);
-  const LOCAL_CHANGE_DEBOUNCE = 300; // 300ms debounce (reduced for faster sync)
-
-  // Track if we've received initial Firebase data (prevent overwriting Firebase with mock data)
-  const hasReceivedInitialData = useRef(false);
+  // A player missing from presence this long counts as disconnected (a page reload stays under it)
+  const DISCONNECT_GRACE_MS = 15000;
+  const disconnectTimers = useRef<Map<string, ReturnType<typeof setTimeout>>>(new Map());
 
   // Theme State
   const [theme, setTheme] = useState<'dark' | 'light'>('light');
@@ -272,6 +246,18 @@ const App: React.FC = () => {
   const [activeTab, setActiveTab] = useState<'CREATE' | 'JOIN'>('JOIN');
   const [createFormName, setCreateFormName] = useState("삼성전자 AI팀");
   const [createFormTeams, setCreateFormTeams] = useState("2");
+  const [createFormBoardSize, setCreateFormBoardSize] = useState(String(DEFAULT_BOARD_SIZE));
+  // Points for run lengths 1..boardSize, comma separated
+  const [createFormScoreTable, setCreateFormScoreTable] = useState(getDefaultScoreTable(DEFAULT_BOARD_SIZE).slice(1).join(', '));
+  const [createFormDeckPreset, setCreateFormDeckPreset] = useState<DeckPresetId>('CLASSIC');
+  const [createFormSeed, setCreateFormSeed] = useState(""); // blank = random
+  const [createFormAIDifficulty, setCreateFormAIDifficulty] = useState<AIDifficulty>('MONTE_CARLO');
+  const [createFormDecisionMode, setCreateFormDecisionMode] = useState<TeamDecisionMode>('FIRST_CLICK');
+  const [createFormPlayerAids, setCreateFormPlayerAids] = useState<PlayerAid[]>([]);
+  const [createFormTimeLimit, setCreateFormTimeLimit] = useState(""); // seconds, blank = no limit
+  const [createFormTimeoutPolicy, setCreateFormTimeoutPolicy] = useState<TimeoutPolicy>('WAIT');
+  const [createFormTournamentGames, setCreateFormTournamentGames] = useState("1"); // 1 = single game
+  const [createFormTournamentAggregation, setCreateFormTournamentAggregation] = useState<TournamentAggregation>('SUM');
   // Game mode is always RANDOM_BOARD (removed CONTROL mode)
   const [selectedGameId, setSelectedGameId] = useState<string | null>(null);
   const [joinName, setJoinName] = useState("");
@@ -442,8 +428,8 @@ const App: React.FC = () => {
 
   // Validate restored session - clear if game no longer exists
   useEffect(() => {
-    if (session.gameId && isDataLoaded && safeGames.length > 0) {
-      const gameExists = safeGames.some(g => generateGameId(g.companyName) === session.gameId);
+    if (session.gameId && gameIndex !== null) {
+      const gameExists = lobbyGames.some(g => g.gameId === session.gameId);
       if (!gameExists) {
         console.log('Saved game no longer exists, clearing session');
         setSession({
@@ -456,242 +442,51 @@ const App: React.FC = () => {
         });
       }
     }
-  }, [session.gameId, isDataLoaded, safeGames]);
+  }, [session.gameId, gameIndex]);
 
-  // --- FIREBASE REAL-TIME SYNC (for cross-device sync) ---
+  // --- REAL-TIME SYNC (lobby index, members, logs) ---
   useEffect(() => {
-    if (!useFirebase) return;
-
-    console.log('Firebase is configured. Setting up real-time sync...');
-
-    // Subscribe to games
-    const unsubscribeGames = subscribeToGames((newGames) => {
-      // Mark that we've received initial data from Firebase
-      hasReceivedInitialData.current = true;
-
-      // Check if there was a very recent local change
-      const timeSinceLocalChange = Date.now() - lastLocalChangeTime.current;
-      const hasRecentLocalChange = timeSinceLocalChange < LOCAL_CHANGE_DEBOUNCE;
-
-      if (hasRecentLocalChange) {
-        console.log('Recent local change detected, will use smart merge');
-      }
-
-      // Accept Firebase data (even empty arrays - don't keep mock data)
-      // Safety check: ensure newGames is an array
-      const firebaseGames = Array.isArray(newGames) ? newGames : [];
-      isFirebaseUpdate.current = true;
-
-      // Smart merge: preserve local board data if it has more filled cells
-      // AND preserve locally created games that haven't synced to Firebase yet
-      setGames(prevGames => {
-        const safePrevGames = Array.isArray(prevGames) ? prevGames : [];
-
-        // Start with Firebase games, merged with local data
-        const mergedGames = firebaseGames.map(firebaseGame => {
-          const localGame = safePrevGames.find(g => g.companyName === firebaseGame.companyName);
-          if (!localGame) return firebaseGame;
-
-          // Use version comparison to determine most recent data
-          const firebaseVersion = firebaseGame.version || 0;
-          const localVersion = localGame.version || 0;
-
-          // If Firebase has newer version and no recent local change, prefer Firebase entirely
-          if (firebaseVersion > localVersion && !hasRecentLocalChange) {
-            return firebaseGame;
-          }
-
-          // Merge teams: keep the board with more filled cells
-          const localTeams = Array.isArray(localGame.teams) ? localGame.teams : [];
-          const firebaseTeams = Array.isArray(firebaseGame.teams) ? firebaseGame.teams : [];
-
-          const mergedTeams = firebaseTeams.map((fbTeam, idx) => {
-            const localTeam = localTeams[idx];
-            if (!localTeam) return fbTeam;
-
-            const localBoard = restoreBoardArray(localTeam.board);
-            const fbBoard = restoreBoardArray(fbTeam.board);
-
-            const localFilledCount = localBoard.filter(c => c !== null).length;
-            const fbFilledCount = fbBoard.filter(c => c !== null).length;
-
-            // CRITICAL: Check if currentRound changed (new number was issued)
-            // If Firebase has a higher round, we must use Firebase's hasPlacedCurrentNumber (which is false for new round)
-            const firebaseRound = firebaseGame.currentRound || 0;
-            const localRound = localGame.currentRound || 0;
-            const isNewRound = firebaseRound > localRound;
-
-            // For hasPlacedCurrentNumber:
-            // - If new round started (Firebase has higher round), use Firebase's value (false)
-            // - If same round, preserve true if either has it (to handle simultaneous placements)
-            const mergedHasPlaced = isNewRound
-              ? fbTeam.hasPlacedCurrentNumber === true
-              : (localTeam.hasPlacedCurrentNumber === true || fbTeam.hasPlacedCurrentNumber === true);
-            const mergedPlacedBy = mergedHasPlaced ? (fbTeam.placedBy || localTeam.placedBy) : null;
-
-            // Keep local board if it has more data (more recent placement)
-            if (localFilledCount > fbFilledCount) {
-              console.log(`Preserving local board for team ${fbTeam.teamNumber}: ${localFilledCount} > ${fbFilledCount}`);
-              return {
-                ...fbTeam,
-                board: localBoard,
-                score: localTeam.score,
-                hasPlacedCurrentNumber: mergedHasPlaced,
-                placedBy: mergedPlacedBy
-              };
-            }
-
-            // Even if Firebase board has more/equal data, still preserve hasPlacedCurrentNumber
-            return {
-              ...fbTeam,
-              hasPlacedCurrentNumber: mergedHasPlaced,
-              placedBy: mergedPlacedBy
-            };
-          });
-
-          // Recalculate waitingForPlacements based on merged team states
-          const activeTeamsList = mergedTeams.filter(t => (Array.isArray(t.players) ? t.players : []).length > 0);
-          const allPlaced = activeTeamsList.every(t => t.hasPlacedCurrentNumber === true);
-          const recalculatedWaiting = firebaseGame.waitingForPlacements === true && !allPlaced;
-
-          return {
-            ...firebaseGame,
-            teams: mergedTeams,
-            // If all teams have placed but Firebase still shows waiting, update it
-            waitingForPlacements: allPlaced ? false : firebaseGame.waitingForPlacements
-          };
-        });
-
-        // Add locally created games that don't exist in Firebase yet
-        // These are games created within the last 10 seconds (to allow for sync delay)
-        const localOnlyGames = safePrevGames.filter(localGame => {
-          const existsInFirebase = firebaseGames.some(fbGame => fbGame.companyName === localGame.companyName);
-          if (existsInFirebase) return false;
-
-          // Check if this game was created recently (within 10 seconds)
-          const createdAt = new Date(localGame.createdAt).getTime();
-          const now = Date.now();
-          const isRecentlyCreated = (now - createdAt) < 10000; // 10 seconds
-
-          if (isRecentlyCreated) {
-            console.log(`Preserving locally created game: ${localGame.companyName}`);
-          }
-          return isRecentlyCreated;
-        });
-
-        return [...localOnlyGames, ...mergedGames];
-      });
-
-      // Also save to localStorage as cache
-      saveToStorage(STORAGE_KEYS.GAMES, firebaseGames);
+    const unsubscribeIndex = repository.subscribeToGameIndex((entries) => {
+      setGameIndex(Array.isArray(entries) ? entries : []);
     });
 
     // Subscribe to members
-    const unsubscribeMembers = subscribeToMembers((newMembers) => {
+    const unsubscribeMembers = repository.subscribeToMembers((newMembers) => {
       // Safety check: ensure newMembers is an array
       const safeMembers = Array.isArray(newMembers) ? newMembers : [];
-      isFirebaseUpdate.current = true;
       setMembers(safeMembers.length > 0 ? safeMembers : INITIAL_MEMBERS);
-      saveToStorage(STORAGE_KEYS.MEMBERS, safeMembers.length > 0 ? safeMembers : INITIAL_MEMBERS);
     });
 
     // Subscribe to logs
-    const unsubscribeLogs = subscribeToLogs((newLogs) => {
+    const unsubscribeLogs = repository.subscribeToLogs((newLogs) => {
       // Safety check: ensure newLogs is an array
       const safeLogs = Array.isArray(newLogs) ? newLogs : [];
-      isFirebaseUpdate.current = true;
       setLogs(safeLogs.length > 0 ? safeLogs : INITIAL_LOGS);
-      saveToStorage(STORAGE_KEYS.LOGS, safeLogs.length > 0 ? safeLogs : INITIAL_LOGS);
     });
 
     return () => {
-      unsubscribeGames();
+      unsubscribeIndex();
       unsubscribeMembers();
       unsubscribeLogs();
     };
-  }, [useFirebase]);
-
-  // --- SYNC STATE TO STORAGE (localStorage + Firebase) ---
-  useEffect(() => {
-    // Always save to localStorage
-    saveToStorage(STORAGE_KEYS.GAMES, games);
-
-    // Only save to Firebase if:
-    // 1. Firebase is configured
-    // 2. This is NOT from a Firebase update
-    // 3. We've already received initial data from Firebase (prevent overwriting with mock data)
-    if (useFirebase && !isFirebaseUpdate.current && hasReceivedInitialData.current) {
-      // Mark that we're making a local change
-      lastLocalChangeTime.current = Date.now();
-      saveGames(games);
-    }
-    isFirebaseUpdate.current = false;
-  }, [games, useFirebase]);
-
-  useEffect(() => {
-    saveToStorage(STORAGE_KEYS.MEMBERS, members);
-    if (useFirebase && !isFirebaseUpdate.current) {
-      saveMembers(members);
-    }
-    isFirebaseUpdate.current = false;
-  }, [members, useFirebase]);
-
-  useEffect(() => {
-    saveToStorage(STORAGE_KEYS.LOGS, logs);
-    if (useFirebase && !isFirebaseUpdate.current) {
-      saveLogs(logs);
-    }
-    isFirebaseUpdate.current = false;
-  }, [logs, useFirebase]);
-
-  // --- CROSS-TAB SYNC: Listen for storage changes from other tabs (fallback when Firebase not configured) ---
-  useEffect(() => {
-    if (useFirebase) return; // Skip if using Firebase
-
-    const handleStorageChange = (e: StorageEvent) => {
-      if (e.key === STORAGE_KEYS.GAMES && e.newValue) {
-        try {
-          const newGames = JSON.parse(e.newValue);
-          setGames(newGames);
-        } catch (err) {
-          console.error('Failed to parse games from storage event:', err);
-        }
-      }
-      if (e.key === STORAGE_KEYS.MEMBERS && e.newValue) {
-        try {
-          const newMembers = JSON.parse(e.newValue);
-          setMembers(newMembers);
-        } catch (err) {
-          console.error('Failed to parse members from storage event:', err);
-        }
-      }
-      if (e.key === STORAGE_KEYS.LOGS && e.newValue) {
-        try {
-          const newLogs = JSON.parse(e.newValue);
-          setLogs(newLogs);
-        } catch (err) {
-          console.error('Failed to parse logs from storage event:', err);
-        }
-      }
-    };
-
-    window.addEventListener('storage', handleStorageChange);
-    return () => window.removeEventListener('storage', handleStorageChange);
-  }, [useFirebase]);
+  }, []);
 
-  // --- PERIODIC SYNC: Refresh from localStorage (fallback when Firebase not configured) ---
+  // --- FOLLOW THE ROOM THIS CLIENT IS IN ---
   useEffect(() => {
-    if (useFirebase) return; // Skip if using Firebase
+    if (!session.gameId) return;
+    const gameId = session.gameId;
 
-    const syncInterval = setInterval(() => {
-      const storedGames = loadFromStorage(STORAGE_KEYS.GAMES, null);
-      if (storedGames && JSON.stringify(storedGames) !== JSON.stringify(games)) {
-        setGames(storedGames);
-      }
-    }, 2000);
+    // Every change is committed by transaction, so the stored room is always the one to show
+    const unsubscribeGame = repository.subscribeToGame(gameId, (storedGame) => {
+      setGames(prevGames => {
+        const safePrevGames = Array.isArray(prevGames) ? prevGames : [];
+        const others = safePrevGames.filter(g => generateGameId(g.companyName) !== gameId);
+        return storedGame ? [storedGame, ...others] : others;
+      });
+    });
 
-    return () => clearInterval(syncInterval);
-  }, [games, useFirebase]);
+    return () => unsubscribeGame();
+  }, [session.gameId]);
 
   // --- SECURITY EFFECT: Kick out deleted/suspended members ---
   useEffect(() => {
@@ -745,30 +540,25 @@ const App: React.FC = () => {
   };
 
   // --- AUTOMATIC GAME CLEANUP & EXPIRATION ---
+  // The interval outlives renders, so it reads the lobby index through a ref
+  const gameIndexRef = useRef<GameIndexEntry[] | null>(null);
+  gameIndexRef.current = gameIndex;
+
   useEffect(() => {
     const checkGames = () => {
       const now = new Date();
-      setGames(prevGames => {
-        const safePrevGames = Array.isArray(prevGames) ? prevGames : [];
-        return safePrevGames
-          .map(game => {
-            const createdAt = new Date(game.createdAt);
-            const diffMs = now.getTime() - createdAt.getTime();
-            const diffHours = diffMs / (1000 * 60 * 60);
-
-            // Auto End after 24 hours
-            if (diffHours >= 24 && !game.gameEnded) {
-               return { ...game, gameEnded: true };
-            }
-            return game;
-          })
-          .filter(game => {
-             // Auto Delete after 7 days (168 hours)
-             const createdAt = new Date(game.createdAt);
-             const diffMs = now.getTime() - createdAt.getTime();
-             const diffHours = diffMs / (1000 * 60 * 60);
-             return diffHours < 168;
-          });
+      const hoursSince = (createdAt: string) => (now.getTime() - new Date(createdAt).getTime()) / (1000 * 60 * 60);
+
+      // Expire rooms through the index instead of downloading every room
+      (gameIndexRef.current || []).forEach(entry => {
+        const diffHours = hoursSince(entry.createdAt);
+        // Auto Delete after 7 days (168 hours)
+        if (diffHours >= GAME_RETENTION_HOURS) {
+          repository.deleteGame(entry.gameId);
+        // Auto End after 24 hours
+        } else if (diffHours >= GAME_EXPIRY_HOURS && entry.phase !== 'ENDED' && entry.phase !== 'ABORTED') {
+          repository.dispatchAction(entry.gameId, { type: 'EXPIRE_GAME', now: now.toISOString() });
+        }
       });
     };
 
@@ -793,7 +583,7 @@ const App: React.FC = () => {
       details,
       ...extra
     };
-    setLogs(prev => [...prev, newLog]);
+    repository.appendLog(newLog);
   };
 
   // --- AUTHENTICATION HANDLERS ---
@@ -808,6 +598,10 @@ const App: React.FC = () => {
         };
         setCurrentUser(adminUser);
         addLog('LOGIN', '관리자 접속');
+        // A relay keeps the member list to admins it knows and room creators
+        repository.claimAdmin(loginPassword).then(accepted => {
+          if (!accepted) alert('서버에서 관리자 비밀번호를 확인하지 못했습니다. 회원 정보 변경이 거부될 수 있습니다.');
+        });
         setShowLoginModal(false);
         setLoginPassword('');
       } else {
@@ -855,7 +649,7 @@ const App: React.FC = () => {
       expiresAt: new Date(Date.now() + (1000 * 60 * 60 * 24 * 30 * 6)).toISOString(), // 6 Months
       status: 'ACTIVE'
     };
-    setMembers(prev => [...prev, newMember]);
+    repository.transactMembers(prev => [...prev, newMember]);
     addLog('REGISTER_MEMBER', `${name} (${email}) 회원 등록`);
   };
 
@@ -863,8 +657,8 @@ const App: React.FC = () => {
       const target = safeMembers.find(m => m.id === id);
       if (!target) return;
 
-      // Directly remove from state. This triggers the useEffect in App to kick the user out if they are logged in.
-      setMembers(prev => prev.filter(m => m.id !== id));
+      // Once stored, the members subscription triggers the useEffect in App that kicks the user out if they are logged in.
+      repository.transactMembers(prev => prev.filter(m => m.id !== id));
       addLog('MEMBER_ACTION', `회원 삭제: ${target.name} (${target.email})`);
   };
 
@@ -875,7 +669,7 @@ const App: React.FC = () => {
       const currentExpiry = new Date(target.expiresAt);
       const newExpiry = new Date(currentExpiry.setMonth(currentExpiry.getMonth() + 6)).toISOString();
 
-      setMembers(prev => prev.map(m => m.id === id ? { ...m, expiresAt: newExpiry } : m));
+      repository.transactMembers(prev => prev.map(m => m.id === id ? { ...m, expiresAt: newExpiry } : m));
       addLog('MEMBER_ACTION', `기간 연장 (+6개월): ${target.name}`);
   };
 
@@ -885,7 +679,7 @@ const App: React.FC = () => {
 
       const newExpiry = new Date(Date.now() + (1000 * 60 * 60 * 24 * 30 * 6)).toISOString();
 
-      setMembers(prev => prev.map(m => m.id === id ? { ...m, expiresAt: newExpiry } : m));
+      repository.transactMembers(prev => prev.map(m => m.id === id ? { ...m, expiresAt: newExpiry } : m));
       addLog('MEMBER_ACTION', `기간 재설정 (오늘부터 6개월): ${target.name}`);
   };
 
@@ -896,46 +690,56 @@ const App: React.FC = () => {
       return;
     }
 
-    const targetGame = safeGames.find(g => generateGameId(g.companyName) === gameId);
+    const targetGame = lobbyGames.find(g => g.gameId === gameId);
     if (!targetGame) return;
 
     if (!confirm(`"${targetGame.companyName}" 게임을 삭제하시겠습니까?\n이 작업은 되돌릴 수 없습니다.`)) {
       return;
     }
 
-    setGames(prev => {
-      const updatedGames = prev.filter(g => generateGameId(g.companyName) !== gameId);
-      // CRITICAL: Save to Firebase immediately when deleting a game
-      if (useFirebase) {
-        lastLocalChangeTime.current = Date.now();
-        saveGames(updatedGames);
-        console.log('Game deleted and saved to Firebase:', targetGame.companyName);
-      }
-      return updatedGames;
-    });
+    // Removes the room with its lobby entry, chats and presence
+    repository.deleteGame(gameId);
     addLog('DELETE_GAME', `게임 삭제: ${targetGame.companyName}`, { relatedGameName: targetGame.companyName });
   };
 
-  // --- REFRESH GAMES FROM FIREBASE ---
-  const refreshGamesFromFirebase = async () => {
-    if (!useFirebase) {
-      console.log('Firebase not configured, cannot refresh');
-      return;
-    }
-
+  // --- REFRESH GAMES FROM STORAGE ---
+  const refreshGames = async () => {
     try {
-      console.log('Refreshing games from Firebase...');
-      const freshGames = await getGames();
-      const safeFreshGames = Array.isArray(freshGames) ? freshGames : [];
-      isFirebaseUpdate.current = true;
-      setGames(safeFreshGames);
-      saveToStorage(STORAGE_KEYS.GAMES, safeFreshGames);
-      console.log('Games refreshed from Firebase:', safeFreshGames.length, 'games');
+      console.log('Refreshing games from storage...');
+      const freshIndex = await repository.getGameIndex();
+      setGameIndex(freshIndex);
+
+      // Only the room this client is in is held in full
+      const freshGame = session.gameId ? await repository.getGame(session.gameId) : null;
+      setGames(freshGame ? [freshGame] : []);
+      console.log('Games refreshed from storage:', freshIndex.length, 'games');
     } catch (error) {
-      console.error('Failed to refresh games from Firebase:', error);
+      console.error('Failed to refresh games from storage:', error);
     }
   };
 
+  // --- COMMITTING ACTIONS ---
+  // Latest copy of every held room; timers and awaited handlers run after their render
+  const gamesRef = useRef<GameState[]>([]);
+  gamesRef.current = safeGames;
+
+  // Sends an action to the repository, which runs it through the rules engine
+  // as a compare-and-set on the room's version: the action is checked again
+  // against the latest stored room, and losing the race comes back as a RuleViolation
+  const commitGameAction = async (gameId: string, action: GameAction): Promise<GameState | RuleViolation> => {
+    const held = gamesRef.current.find(g => generateGameId(g.companyName) === gameId);
+    const base: ActionBase | undefined = held && { version: held.version, currentRound: held.currentRound, currentNumber: held.currentNumber };
+    const result = await repository.dispatchAction(gameId, action, base);
+    if (isRuleViolation(result)) return result;
+
+    const replaceRoom = (list: GameState[]) => list.some(g => generateGameId(g.companyName) === gameId)
+      ? list.map(g => (generateGameId(g.companyName) === gameId ? result : g))
+      : [result, ...list];
+    gamesRef.current = replaceRoom(gamesRef.current);
+    setGames(prev => replaceRoom(Array.isArray(prev) ? prev : []));
+    return result;
+  };
+
   // --- GAME LOGIC ---
   useEffect(() => {
     if (activeGame && session.role !== 'NONE') {
@@ -946,65 +750,142 @@ const App: React.FC = () => {
     }
   }, [games, activeGame, session.role]);
 
-  const createCompanyGame = (companyName: string, teamCountStr: string) => {
+  // --- PRESENCE (captaincy hand-over) ---
+  const [onlinePlayerIds, setOnlinePlayerIds] = useState<Set<string> | null>(null);
+
+  // Announce myself while I'm in a game as a player
+  useEffect(() => {
+    if (!session.gameId || session.role !== 'PLAYER' || !session.myPlayerId) return;
+    return repository.trackPresence(session.gameId, session.myPlayerId);
+  }, [session.gameId, session.role, session.myPlayerId]);
+
+  useEffect(() => {
+    setOnlinePlayerIds(null);
+    if (!session.gameId || session.role === 'NONE') return;
+    return repository.subscribeToPresence(session.gameId, ids => setOnlinePlayerIds(new Set(ids)));
+  }, [session.gameId, session.role]);
+
+  useEffect(() => {
+    const timers = disconnectTimers.current;
+    return () => {
+      timers.forEach(timer => clearTimeout(timer));
+      timers.clear();
+    };
+  }, [session.gameId]);
+
+  // Applies a presence change to the latest copy of the game (timers fire long after scheduling)
+  const markPlayerConnection = (companyName: string, teamIndex: number, playerId: string, connected: boolean) => {
+    commitGameAction(generateGameId(companyName), { type: 'SET_PLAYER_CONNECTION', teamIndex, playerId, connected });
+  };
+
+  // The host watches every team, players watch their own; whoever notices first reports it
+  useEffect(() => {
+    if (!activeGame || !onlinePlayerIds) return;
+    const timers = disconnectTimers.current;
+    const teams = Array.isArray(activeGame.teams) ? activeGame.teams : [];
+
+    teams.forEach((team, teamIndex) => {
+      if (team.isAI) return;
+      if (session.role !== 'HOST' && session.myTeamId !== teamIndex + 1) return;
+
+      (Array.isArray(team.players) ? team.players : []).forEach(player => {
+        if (onlinePlayerIds.has(player.id)) {
+          const timer = timers.get(player.id);
+          if (timer) {
+            clearTimeout(timer);
+            timers.delete(player.id);
+          }
+          if (player.connected === false) {
+            markPlayerConnection(activeGame.companyName, teamIndex, player.id, true);
+          }
+        } else if (player.connected !== false && !timers.has(player.id)) {
+          timers.set(player.id, setTimeout(() => {
+            timers.delete(player.id);
+            markPlayerConnection(activeGame.companyName, teamIndex, player.id, false);
+          }, DISCONNECT_GRACE_MS));
+        }
+      });
+    });
+  }, [activeGame, onlinePlayerIds, session.role, session.myTeamId]);
+
+  // --- TEAM CHAT ---
+  // Players load only their own team's channel; the host reads every team's.
+  // Player sessions store the 1-based team slot, which is also the team number.
+  const [teamChats, setTeamChats] = useState<TeamChatLog>({});
+
+  useEffect(() => {
+    setTeamChats({});
+    if (!session.gameId || session.role === 'NONE') return;
+    const gameId = session.gameId;
+    const myTeamNumber = session.role === 'PLAYER' ? session.myTeamId : null;
+    if (session.role === 'PLAYER' && !myTeamNumber) return;
+
+    return myTeamNumber
+      ? repository.subscribeToTeamChat(gameId, myTeamNumber, messages => setTeamChats({ [myTeamNumber]: messages }))
+      : repository.subscribeToGameChats(gameId, setTeamChats);
+  }, [session.gameId, session.role, session.myTeamId]);
+
+  const sendTeamChat = (text: string) => {
+    if (!activeGame || !session.gameId || !session.myTeamId || !session.myPlayerId) return;
+    const teamNumber = session.myTeamId;
+    const team = (Array.isArray(activeGame.teams) ? activeGame.teams : [])[teamNumber - 1];
+    const sender = (Array.isArray(team?.players) ? team.players : []).find(p => p.id === session.myPlayerId);
+    const trimmed = text.trim().slice(0, MAX_CHAT_MESSAGE_LENGTH);
+    if (!sender || !trimmed) return;
+
+    const message: ChatMessage = {
+      id: generateMessageId(),
+      playerId: sender.id,
+      playerName: sender.name,
+      text: trimmed,
+      sentAt: new Date().toISOString(),
+      round: activeGame.currentRound
+    };
+
+    repository.sendChatMessage(session.gameId, teamNumber, message);
+  };
+
+  const createCompanyGame = async (companyName: string, teamCountStr: string, boardSizeStr: string, scoreTableStr: string, deckPresetId: DeckPresetId, seedStr: string, aiDifficulty: AIDifficulty, decisionMode: TeamDecisionMode, playerAids: PlayerAid[], timeLimitStr: string, timeoutPolicy: TimeoutPolicy, tournamentGamesStr: string, tournamentAggregation: TournamentAggregation) => {
     if (!isAuthorized) {
         alert("게임 생성 권한이 없습니다.");
         return;
     }
 
     const teamCount = parseInt(teamCountStr);
-    if (!companyName || isNaN(teamCount) || teamCount < 1) {
-      alert("회사명과 최소 1개 이상의 팀을 입력해주세요.");
-      return;
-    }
-
     const gameId = generateGameId(companyName);
-    if (safeGames.some(g => generateGameId(g.companyName) === gameId)) {
+    if (companyName && lobbyGames.some(g => g.gameId === gameId)) {
       alert("이미 존재하는 회사명입니다.");
       return;
     }
 
-    // Always use RANDOM_BOARD mode (CONTROL mode removed)
-    const newGame: GameState = {
-      companyName: companyName,
-      teamCount: teamCount,
-      teams: Array.from({ length: teamCount }, (_, i) => ({
-        teamNumber: i + 1,
-        players: [],
-        board: Array(20).fill(null),
-        score: 0,
-        hasPlacedCurrentNumber: false,
-        placedBy: null
-      })),
-      availableNumbers: createFullDeck(),
-      usedNumbers: [],
-      usedCardIndices: [],
-      currentNumber: null,
-      gameStarted: false,
-      gameEnded: false,
-      waitingForPlacements: false,
-      currentRound: 0,
-      finalRanking: [],
+    const deckSpec = getDeckPreset(deckPresetId).spec;
+    // CRITICAL: Stored right away so the lobby index lists the game for participants;
+    // the repository runs the setup through the rules engine
+    const newGame = await repository.createGame({
+      companyName,
+      teamCount,
       creatorId: currentUser.id,
       createdAt: new Date().toISOString(),
-      gameMode: 'RANDOM_BOARD',
-      randomBoardNumbers: generateRandomBoardNumbers(),
-      revealedCells: [],
-      pendingRandomNumber: null,
-      version: 1
-    };
-
-    setGames(prev => {
-      const updatedGames = [newGame, ...prev];
-      // CRITICAL: Save to Firebase immediately when creating a game
-      // This ensures the game is visible to participants even if hasReceivedInitialData is still false
-      if (useFirebase) {
-        lastLocalChangeTime.current = Date.now();
-        saveGames(updatedGames);
-        console.log('Game created and saved to Firebase:', companyName);
-      }
-      return updatedGames;
+      // Sharing a seed lets another company replay the identical number sequence
+      seed: seedStr.trim() ? Number(seedStr.trim()) : generateSeed(),
+      deckSpec,
+      aiDifficulty,
+      decisionMode,
+      playerAids,
+      placementTimeLimit: timeLimitStr.trim() ? Number(timeLimitStr.trim()) : 0,
+      timeoutPolicy,
+      // More than one game turns the room's rematches into a tournament
+      tournament: parseInt(tournamentGamesStr) > 1
+        ? { name: companyName, aggregation: tournamentAggregation, totalGames: parseInt(tournamentGamesStr) }
+        : null,
+      boardSize: parseInt(boardSizeStr),
+      // Index 0 (a run of zero cells) is never scored
+      scoreTable: [0, ...scoreTableStr.split(',').filter(v => v.trim() !== '').map(v => Number(v.trim()))]
     });
+    if (isRuleViolation(newGame)) {
+      alert(newGame.message);
+      return;
+    }
     addLog('CREATE_GAME', `${companyName} 게임 생성 (${teamCount}개 팀)`, { relatedGameName: companyName });
     
     setSession({
@@ -1017,30 +898,7 @@ const App: React.FC = () => {
     });
   };
 
-  const joinTeam = (gameId: string, teamNumberIdx: number, playerName: string) => {
-    const gameIndex = safeGames.findIndex(g => generateGameId(g.companyName) === gameId);
-    if (gameIndex === -1) return;
-
-    if (!playerName.trim()) {
-      alert("이름을 입력해주세요.");
-      return;
-    }
-
-    const game = safeGames[gameIndex];
-    const safeTeams = Array.isArray(game.teams) ? game.teams : [];
-    const team = safeTeams[teamNumberIdx];
-    if (!team) return;
-
-    const teamPlayers = Array.isArray(team.players) ? team.players : [];
-    if (teamPlayers.length >= 10) {
-      alert("이 팀은 정원이 초과되었습니다.");
-      return;
-    }
-    if (teamPlayers.some(p => p.name === playerName)) {
-      alert("이미 이 팀에 존재하는 이름입니다.");
-      return;
-    }
-
+  const joinTeam = async (gameId: string, teamNumberIdx: number, playerName: string) => {
     const playerId = generatePlayerId();
     const newPlayer: Player = {
       id: playerId,
@@ -1048,16 +906,14 @@ const App: React.FC = () => {
       joinedAt: new Date().toISOString()
     };
 
-    const newTeams = safeTeams.map((t, idx) =>
-      idx === teamNumberIdx
-        ? { ...t, players: [...(Array.isArray(t.players) ? t.players : []), newPlayer] }
-        : t
-    );
-
-    const newGame = { ...game, teams: newTeams };
-    const newGamesList = [...safeGames];
-    newGamesList[gameIndex] = newGame;
-    setGames(newGamesList);
+    // A joining player only has the lobby entry, so the join runs against the stored room.
+    // Joining the same room again replaces my earlier entry.
+    const replacesPlayerId = session.gameId === gameId && session.myPlayerId ? session.myPlayerId : undefined;
+    const newGame = await commitGameAction(gameId, { type: 'JOIN_TEAM', teamIndex: teamNumberIdx, player: newPlayer, replacesPlayerId });
+    if (isRuleViolation(newGame)) {
+      if (newGame.code !== 'TEAM_NOT_FOUND') alert(newGame.message);
+      return;
+    }
 
     setSession({
       gameId: gameId,
@@ -1069,289 +925,164 @@ const App: React.FC = () => {
     });
   };
 
-  // Generate shuffled numbers for RANDOM_BOARD mode
-  const generateRandomBoardNumbers = (): (number | string)[] => {
-    const numbers: (number | string)[] = [];
-    for (let i = 1; i <= 10; i++) numbers.push(i);
-    for (let i = 11; i <= 19; i++) numbers.push(i);
-    for (let i = 11; i <= 19; i++) numbers.push(i);
-    for (let i = 20; i <= 30; i++) numbers.push(i);
-    numbers.push('★');
-    // Shuffle
-    for (let i = numbers.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [numbers[i], numbers[j]] = [numbers[j], numbers[i]];
+  // Runs a host action through the rules engine and stores the resulting state.
+  // Rule violations are shown to the host as an alert.
+  const dispatchHostAction = async (action: GameAction) => {
+    if (!activeGame) return;
+    const result = await commitGameAction(generateGameId(activeGame.companyName), action);
+    if (isRuleViolation(result)) {
+      alert(result.message);
     }
-    return numbers;
   };
 
-  const startCompanyGame = () => {
-    if (!activeGame) return;
-    const gameTeams = Array.isArray(activeGame.teams) ? activeGame.teams : [];
-    const activeTeams = gameTeams.filter(t => (Array.isArray(t.players) ? t.players : []).length > 0);
-    if (activeTeams.length < 1) {
-      alert("최소 1팀 이상 참가해야 합니다.");
-      return;
-    }
+  const addAITeam = () => {
+    dispatchHostAction({ type: 'ADD_AI_TEAM', joinedAt: new Date().toISOString() });
+  };
 
-    // Always use RANDOM_BOARD mode
-    const updates: Partial<GameState> = {
-      gameStarted: true,
-      currentRound: 0,
-      currentNumber: null,
-      gameMode: 'RANDOM_BOARD',
-      randomBoardNumbers: generateRandomBoardNumbers(),
-      revealedCells: [],
-      pendingRandomNumber: null,
-      version: (activeGame.version || 0) + 1
-    };
+  const buildDebrief = (teamIndex: number) => {
+    dispatchHostAction({ type: 'BUILD_DEBRIEF', teamIndex });
+  };
 
-    updateGame(activeGame.companyName, updates);
+  const setPlayerAid = (aid: PlayerAid, enabled: boolean) => {
+    dispatchHostAction({ type: 'SET_PLAYER_AID', aid, enabled });
   };
 
-  const selectNumberByHost = (num: number | string, cardIndex: number) => {
-    if (!activeGame) return;
-    if (activeGame.waitingForPlacements) {
-      alert("모든 팀이 숫자를 배치할 때까지 기다려주세요.");
-      return;
-    }
-    const gameTeams = Array.isArray(activeGame.teams) ? activeGame.teams : [];
-    const newUsedCardIndices = [...(Array.isArray(activeGame.usedCardIndices) ? activeGame.usedCardIndices : []), cardIndex];
-    const newAvailable = [...(Array.isArray(activeGame.availableNumbers) ? activeGame.availableNumbers : [])];
-    const newTeams = gameTeams.map(t => ({ ...t, hasPlacedCurrentNumber: false, placedBy: null }));
-
-    updateGame(activeGame.companyName, {
-      currentNumber: num,
-      usedNumbers: [...(Array.isArray(activeGame.usedNumbers) ? activeGame.usedNumbers : []), num],
-      usedCardIndices: newUsedCardIndices,
-      availableNumbers: newAvailable,
-      waitingForPlacements: true,
-      currentRound: activeGame.currentRound + 1,
-      teams: newTeams,
-      version: (activeGame.version || 0) + 1
-    });
+  const assignTeamRole = (teamIndex: number, role: TeamRole, playerId: string | null) => {
+    dispatchHostAction({ type: 'ASSIGN_TEAM_ROLE', teamIndex, role, playerId });
   };
 
-  // For RANDOM_BOARD mode: select a cell (set as pending)
-  const selectRandomCell = (cellLabel: string, value: number | string) => {
-    if (!activeGame) return;
-    if (activeGame.waitingForPlacements) {
-      alert("모든 팀이 숫자를 배치할 때까지 기다려주세요.");
-      return;
+  // Lobby election: my vote for my team's captain
+  const voteCaptain = async (candidateId: string) => {
+    if (!activeGame || !session.myTeamId || !session.myPlayerId) return;
+    const result = await commitGameAction(generateGameId(activeGame.companyName), {
+      type: 'VOTE_CAPTAIN',
+      teamIndex: session.myTeamId - 1,
+      voterId: session.myPlayerId,
+      candidateId
+    });
+    if (isRuleViolation(result)) {
+      alert(result.message);
     }
+  };
 
-    const revealedCells = Array.isArray(activeGame.revealedCells) ? activeGame.revealedCells : [];
-    if (revealedCells.includes(cellLabel)) {
-      alert("이미 출제된 셀입니다.");
-      return;
-    }
+  const startCompanyGame = () => {
+    if (!activeGame) return;
+    dispatchHostAction({ type: 'START_GAME', seed: activeGame.seed ?? generateSeed() });
+  };
 
-    updateGame(activeGame.companyName, {
-      pendingRandomNumber: { value, cellLabel },
-      version: (activeGame.version || 0) + 1
-    });
+  // For RANDOM_BOARD mode: select a cell (set as pending)
+  const selectRandomCell = (cellLabel: string) => {
+    dispatchHostAction({ type: 'SELECT_CELL', cellLabel });
   };
 
   // For RANDOM_BOARD mode: submit the pending number
   const submitRandomNumber = () => {
-    if (!activeGame) return;
-    if (!activeGame.pendingRandomNumber) {
-      alert("출제할 숫자를 먼저 선택해주세요.");
-      return;
-    }
-    if (activeGame.waitingForPlacements) {
-      alert("모든 팀이 숫자를 배치할 때까지 기다려주세요.");
-      return;
-    }
-
-    const { value, cellLabel } = activeGame.pendingRandomNumber;
-    const gameTeams = Array.isArray(activeGame.teams) ? activeGame.teams : [];
-    const revealedCells = Array.isArray(activeGame.revealedCells) ? activeGame.revealedCells : [];
-    const newTeams = gameTeams.map(t => ({ ...t, hasPlacedCurrentNumber: false, placedBy: null }));
-
-    updateGame(activeGame.companyName, {
-      currentNumber: value,
-      usedNumbers: [...(Array.isArray(activeGame.usedNumbers) ? activeGame.usedNumbers : []), value],
-      revealedCells: [...revealedCells, cellLabel],
-      pendingRandomNumber: null,
-      waitingForPlacements: true,
-      currentRound: activeGame.currentRound + 1,
-      teams: newTeams,
-      version: (activeGame.version || 0) + 1
-    });
+    dispatchHostAction({ type: 'SUBMIT_NUMBER', startedAt: new Date().toISOString() });
   };
 
-  // For RANDOM_BOARD mode: random reveal
-  const randomRevealCell = () => {
-    if (!activeGame) return;
-    if (activeGame.waitingForPlacements) {
-      alert("모든 팀이 숫자를 배치할 때까지 기다려주세요.");
-      return;
-    }
+  const pauseGame = () => {
+    dispatchHostAction({ type: 'PAUSE_GAME', now: new Date().toISOString() });
+  };
 
-    const revealedCells = Array.isArray(activeGame.revealedCells) ? activeGame.revealedCells : [];
-    const randomBoardNumbers = Array.isArray(activeGame.randomBoardNumbers) ? activeGame.randomBoardNumbers : [];
+  const resumeGame = () => {
+    dispatchHostAction({ type: 'RESUME_GAME', now: new Date().toISOString() });
+  };
 
-    // Generate grid labels
-    const gridLabels: string[] = [];
-    const rows = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
-    for (const row of rows) {
-      for (let col = 1; col <= 5; col++) {
-        gridLabels.push(`${row}${col}`);
-      }
-    }
+  const abortGame = () => {
+    if (!window.confirm('게임을 조기 종료할까요?\n현재 보드 기준으로 최종 순위가 확정됩니다.')) return;
+    dispatchHostAction({ type: 'ABORT_GAME' });
+  };
 
-    const unrevealed = gridLabels.filter(label => !revealedCells.includes(label));
-    if (unrevealed.length === 0) {
-      alert("모든 숫자가 이미 출제되었습니다.");
+  // Undo the last dealt number; once teams have placed it, the host confirms clearing their boards
+  const undoLastReveal = async () => {
+    if (!activeGame) return;
+    const result = await commitGameAction(generateGameId(activeGame.companyName), { type: 'UNDO_REVEAL' });
+    if (!isRuleViolation(result)) return;
+    if (result.code !== 'PLACEMENTS_EXIST') {
+      alert(result.message);
       return;
     }
+    if (!window.confirm(`${result.message}\n되돌리면 이 팀들의 보드에서 ${activeGame.currentNumber}도 함께 지워집니다. 계속할까요?`)) return;
+    dispatchHostAction({ type: 'UNDO_REVEAL', removePlacements: true });
+  };
 
-    const randomLabel = unrevealed[Math.floor(Math.random() * unrevealed.length)];
-    const index = gridLabels.indexOf(randomLabel);
-    const value = randomBoardNumbers[index];
+  // Same room and teams, fresh boards; players stay on their game screen
+  const rematchGame = () => {
+    if (!window.confirm('같은 팀 구성으로 재경기를 시작할까요?\n이번 결과는 보관되어 나중에 비교할 수 있습니다.')) return;
+    dispatchHostAction({ type: 'REMATCH', seed: generateSeed() });
+  };
 
-    updateGame(activeGame.companyName, {
-      pendingRandomNumber: { value, cellLabel: randomLabel },
-      version: (activeGame.version || 0) + 1
-    });
+  const setTournament = (tournament: Tournament | null) => {
+    dispatchHostAction({ type: 'SET_TOURNAMENT', tournament });
   };
 
-  const placeNumberInTeam = (position: number) => {
-    if (!activeGame || !session.myTeamId || !session.myPlayerId) return;
-    const gameTeams = Array.isArray(activeGame.teams) ? activeGame.teams : [];
-    const teamIdx = session.myTeamId - 1;
-    const team = gameTeams[teamIdx];
-    if (!team) return;
-
-    if (!activeGame.gameStarted || activeGame.gameEnded) return;
-    if (team.hasPlacedCurrentNumber) return;
-    const teamBoard = restoreBoardArray(team.board);
-    if (teamBoard[position] !== null) return;
-    if (!activeGame.currentNumber) return;
-
-    const newBoard = [...teamBoard];
-    newBoard[position] = activeGame.currentNumber;
-    const newScore = calculatePlayerScore(newBoard);
-
-    const newTeams = [...gameTeams];
-    newTeams[teamIdx] = {
-      ...team,
-      board: newBoard,
-      score: newScore,
-      hasPlacedCurrentNumber: true,
-      placedBy: session.myPlayerName
-    };
+  const pauseRoundTimer = () => {
+    dispatchHostAction({ type: 'PAUSE_TIMER', now: new Date().toISOString() });
+  };
 
-    // Filter active teams and check if all have placed their number
-    // Use explicit === true check to handle undefined values from Firebase
-    const activeTeamsList = newTeams.filter(t => (Array.isArray(t.players) ? t.players : []).length > 0);
-    const allPlaced = activeTeamsList.every(t => t.hasPlacedCurrentNumber === true);
+  const resumeRoundTimer = () => {
+    dispatchHostAction({ type: 'RESUME_TIMER', now: new Date().toISOString() });
+  };
 
-    console.log('Placement check:', {
-      activeTeams: activeTeamsList.length,
-      allPlaced,
-      teamStatuses: activeTeamsList.map(t => ({ teamNumber: t.teamNumber, hasPlaced: t.hasPlacedCurrentNumber }))
-    });
+  // Fired by the host's countdown at zero; a late or duplicate call is simply ignored
+  const resolveRoundTimeout = () => {
+    if (!activeGame) return;
+    // The engine refuses it while time is left, so a timer that fires a little
+    // early (clock skew) just does nothing
+    commitGameAction(generateGameId(activeGame.companyName), { type: 'RESOLVE_TIMEOUT', now: new Date().toISOString() });
+  };
 
-    let updates: Partial<GameState> = {
-      teams: newTeams,
-      waitingForPlacements: !allPlaced,
-      version: (activeGame.version || 0) + 1
-    };
+  // For RANDOM_BOARD mode: random reveal
+  const randomRevealCell = () => {
+    dispatchHostAction({ type: 'RANDOM_REVEAL', roll: Math.random() });
+  };
 
-    if (allPlaced && checkGameEnd({ ...activeGame, ...updates } as GameState)) {
-      updates.gameEnded = true;
-      updates.finalRanking = calculateFinalRanking({ ...activeGame, ...updates } as GameState);
+  // Runs one of my team's placement actions through the engine and stores the result
+  const dispatchTeamAction = async (action: GameAction) => {
+    if (!activeGame || !session.myTeamId || !session.myPlayerId) return;
+
+    const result = await commitGameAction(generateGameId(activeGame.companyName), action);
+    if (!isRuleViolation(result)) return;
+    // Losing a race to another client is reported; other stale clicks (already placed,
+    // cell taken) are ignored silently since the screen already shows why
+    if (result.code === 'VERSION_CONFLICT' || result.code === 'GAME_NOT_FOUND' || result.code === 'SYNC_FAILED') {
+      alert(result.message);
+    } else {
+      console.log('Placement rejected:', result.code);
     }
-    updateGameWithMerge(activeGame.companyName, updates, teamIdx, newBoard);
   };
 
-  // Special update function for board placements that preserves board state
-  // This prevents race conditions where Firebase updates could overwrite local board changes
-  // CRITICAL: Also preserves hasPlacedCurrentNumber status from other teams
-  const updateGameWithMerge = (companyName: string, updates: Partial<GameState>, teamIdx: number, newBoard: (number | string | null)[]) => {
-    // Mark that we're making a critical local change
-    lastLocalChangeTime.current = Date.now();
-
-    setGames(prevGames =>
-      prevGames.map(g => {
-        if (g.companyName !== companyName) return g;
-
-        // Get the current teams from prevGames (most up-to-date local state)
-        const currentTeams = Array.isArray(g.teams) ? g.teams : [];
-
-        // Merge: ensure the board update for this specific team is preserved
-        // AND preserve hasPlacedCurrentNumber status from other teams
-        const mergedTeams = updates.teams ? updates.teams.map((updatedTeam: Team, idx: number) => {
-          if (idx === teamIdx) {
-            // For the team that just placed a number, ensure their board is the new board
-            return {
-              ...updatedTeam,
-              board: newBoard
-            };
-          }
-          // For other teams, preserve their existing state
-          const existingTeam = currentTeams[idx];
-          if (existingTeam) {
-            const existingBoard = restoreBoardArray(existingTeam.board);
-            const updatedBoard = restoreBoardArray(updatedTeam.board);
-            // Count filled cells
-            const existingFilledCount = existingBoard.filter(c => c !== null).length;
-            const updatedFilledCount = updatedBoard.filter(c => c !== null).length;
-
-            // CRITICAL: Preserve hasPlacedCurrentNumber if either has it true
-            // This prevents one team's update from overwriting another team's placement status
-            const preservedHasPlaced = existingTeam.hasPlacedCurrentNumber === true || updatedTeam.hasPlacedCurrentNumber === true;
-            const preservedPlacedBy = preservedHasPlaced ? (existingTeam.placedBy || updatedTeam.placedBy) : null;
-
-            // Keep the board with more filled cells (more recent data)
-            if (existingFilledCount > updatedFilledCount) {
-              return {
-                ...updatedTeam,
-                board: existingBoard,
-                hasPlacedCurrentNumber: preservedHasPlaced,
-                placedBy: preservedPlacedBy
-              };
-            }
-
-            // Even if updated board has more/equal data, still preserve hasPlacedCurrentNumber
-            return {
-              ...updatedTeam,
-              hasPlacedCurrentNumber: preservedHasPlaced,
-              placedBy: preservedPlacedBy
-            };
-          }
-          return updatedTeam;
-        }) : undefined;
-
-        // Re-calculate waitingForPlacements based on the properly merged teams
-        const finalTeams = mergedTeams || updates.teams || g.teams;
-        const activeTeamsList = (Array.isArray(finalTeams) ? finalTeams : []).filter(t => (Array.isArray(t.players) ? t.players : []).length > 0);
-        const allPlaced = activeTeamsList.every(t => t.hasPlacedCurrentNumber === true);
-
-        console.log('updateGameWithMerge - Recalculated placement status:', {
-          activeTeams: activeTeamsList.length,
-          allPlaced,
-          teamStatuses: activeTeamsList.map(t => ({ teamNumber: t.teamNumber, hasPlaced: t.hasPlacedCurrentNumber }))
-        });
+  const placeNumberInTeam = (position: number) => {
+    if (!session.myTeamId) return;
+    dispatchTeamAction({
+      type: 'PLACE_NUMBER',
+      teamIndex: session.myTeamId - 1,
+      position,
+      playerName: session.myPlayerName
+    });
+  };
 
-        return {
-          ...g,
-          ...updates,
-          teams: finalTeams,
-          waitingForPlacements: !allPlaced  // Override with recalculated value
-        };
-      })
-    );
+  // Team decision modes: propose (or withdraw, with null) a cell for my team
+  const proposeCell = (position: number | null) => {
+    if (!session.myTeamId || !session.myPlayerId) return;
+    dispatchTeamAction({
+      type: 'PROPOSE_CELL',
+      teamIndex: session.myTeamId - 1,
+      playerId: session.myPlayerId,
+      position,
+      proposedAt: new Date().toISOString()
+    });
   };
 
-  const updateGame = (companyName: string, updates: Partial<GameState>) => {
-    setGames(prevGames =>
-      prevGames.map(g =>
-        g.companyName === companyName ? { ...g, ...updates } : g
-      )
-    );
+  // CAPTAIN mode: the captain commits the team's placement
+  const confirmPlacement = (position: number) => {
+    if (!session.myTeamId || !session.myPlayerId) return;
+    dispatchTeamAction({
+      type: 'CONFIRM_PLACEMENT',
+      teamIndex: session.myTeamId - 1,
+      playerId: session.myPlayerId,
+      position
+    });
   };
 
   const toggleViewMode = () => {
@@ -1495,6 +1226,160 @@ const App: React.FC = () => {
                   </select>
                 </div>
 
+                <div>
+                  <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">Board Size</label>
+                  <select
+                    className="glass-input w-full px-4 py-3 rounded-lg focus:border-cyan-500 dark:focus:border-ai-primary outline-none text-slate-800 dark:text-white bg-gray-50 dark:bg-black/50"
+                    value={createFormBoardSize}
+                    onChange={e => {
+                      setCreateFormBoardSize(e.target.value);
+                      setCreateFormScoreTable(getDefaultScoreTable(parseInt(e.target.value)).slice(1).join(', '));
+                    }}
+                  >
+                    {Array.from({length: 11}, (_, i) => i + 10).map(n => (
+                      <option key={n} value={n} className="bg-white dark:bg-slate-900">{n}칸 ({n}라운드)</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">Score Table</label>
+                  <input
+                    className="glass-input w-full px-4 py-3 rounded-lg focus:border-cyan-500 dark:focus:border-ai-primary focus:ring-1 focus:ring-cyan-500/50 dark:focus:ring-ai-primary/50 outline-none transition-all text-slate-800 dark:text-white placeholder-gray-400 dark:placeholder-gray-600 bg-gray-50 dark:bg-black/30 font-mono text-xs"
+                    value={createFormScoreTable}
+                    onChange={e => setCreateFormScoreTable(e.target.value)}
+                  />
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">1칸부터 순서대로 연속 칸 수별 점수 (쉼표 구분)</p>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">Deck</label>
+                  <select
+                    className="glass-input w-full px-4 py-3 rounded-lg focus:border-cyan-500 dark:focus:border-ai-primary outline-none text-slate-800 dark:text-white bg-gray-50 dark:bg-black/50"
+                    value={createFormDeckPreset}
+                    onChange={e => setCreateFormDeckPreset(e.target.value as DeckPresetId)}
+                  >
+                    {DECK_PRESETS.map(preset => (
+                      <option key={preset.id} value={preset.id} className="bg-white dark:bg-slate-900">{preset.label}</option>
+                    ))}
+                  </select>
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">{getDeckPreset(createFormDeckPreset).description}</p>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">Seed (Optional)</label>
+                  <input
+                    className="glass-input w-full px-4 py-3 rounded-lg focus:border-cyan-500 dark:focus:border-ai-primary focus:ring-1 focus:ring-cyan-500/50 dark:focus:ring-ai-primary/50 outline-none transition-all text-slate-800 dark:text-white placeholder-gray-400 dark:placeholder-gray-600 bg-gray-50 dark:bg-black/30 font-mono"
+                    value={createFormSeed}
+                    onChange={e => setCreateFormSeed(e.target.value.replace(/[^0-9]/g, ''))}
+                    placeholder="비워두면 무작위"
+                  />
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">같은 시드와 덱이면 같은 숫자 순서로 진행됩니다</p>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">AI Difficulty</label>
+                  <select
+                    className="glass-input w-full px-4 py-3 rounded-lg focus:border-cyan-500 dark:focus:border-ai-primary outline-none text-slate-800 dark:text-white bg-gray-50 dark:bg-black/50"
+                    value={createFormAIDifficulty}
+                    onChange={e => setCreateFormAIDifficulty(e.target.value as AIDifficulty)}
+                  >
+                    {AI_DIFFICULTIES.map(level => (
+                      <option key={level.id} value={level.id} className="bg-white dark:bg-slate-900">{level.label} - {level.description}</option>
+                    ))}
+                  </select>
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">대기실에서 추가하는 AI 팀에 적용됩니다</p>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">Team Decision</label>
+                  <select
+                    className="glass-input w-full px-4 py-3 rounded-lg focus:border-cyan-500 dark:focus:border-ai-primary outline-none text-slate-800 dark:text-white bg-gray-50 dark:bg-black/50"
+                    value={createFormDecisionMode}
+                    onChange={e => setCreateFormDecisionMode(e.target.value as TeamDecisionMode)}
+                  >
+                    {TEAM_DECISION_MODES.map(mode => (
+                      <option key={mode.id} value={mode.id} className="bg-white dark:bg-slate-900">{mode.label} - {mode.description}</option>
+                    ))}
+                  </select>
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">팀원들이 배치할 칸을 정하는 방식입니다</p>
+                </div>
+
+                <div>
+                  <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">Player Aids</label>
+                  <div className="space-y-1.5">
+                    {PLAYER_AIDS.map(aid => (
+                      <label key={aid.id} className="flex items-center gap-2 text-sm text-slate-700 dark:text-gray-300 cursor-pointer">
+                        <input
+                          type="checkbox"
+                          className="accent-cyan-600"
+                          checked={createFormPlayerAids.includes(aid.id)}
+                          onChange={e => setCreateFormPlayerAids(prev =>
+                            e.target.checked ? [...prev, aid.id] : prev.filter(id => id !== aid.id)
+                          )}
+                        />
+                        <span className="font-bold">{aid.label}</span>
+                        <span className="text-[10px] text-gray-500 dark:text-gray-400">{aid.description}</span>
+                      </label>
+                    ))}
+                  </div>
+                  <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">초보자 세션에 권장, 게임 중에도 호스트가 켜고 끌 수 있습니다</p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">Time Limit (sec)</label>
+                    <input
+                      className="glass-input w-full px-4 py-3 rounded-lg focus:border-cyan-500 dark:focus:border-ai-primary focus:ring-1 focus:ring-cyan-500/50 dark:focus:ring-ai-primary/50 outline-none transition-all text-slate-800 dark:text-white placeholder-gray-400 dark:placeholder-gray-600 bg-gray-50 dark:bg-black/30 font-mono"
+                      value={createFormTimeLimit}
+                      onChange={e => setCreateFormTimeLimit(e.target.value.replace(/[^0-9]/g, ''))}
+                      placeholder="제한 없음"
+                    />
+                  </div>
+                  <div>
+                    <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">On Timeout</label>
+                    <select
+                      className="glass-input w-full px-4 py-3 rounded-lg focus:border-cyan-500 dark:focus:border-ai-primary outline-none text-slate-800 dark:text-white bg-gray-50 dark:bg-black/50 disabled:opacity-40"
+                      value={createFormTimeoutPolicy}
+                      disabled={!createFormTimeLimit}
+                      onChange={e => setCreateFormTimeoutPolicy(e.target.value as TimeoutPolicy)}
+                    >
+                      {TIMEOUT_POLICIES.map(policy => (
+                        <option key={policy.id} value={policy.id} className="bg-white dark:bg-slate-900">{policy.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="col-span-2 text-[10px] text-gray-500 dark:text-gray-400">라운드마다 배치 제한 시간(최대 {MAX_PLACEMENT_TIME_LIMIT}초), 시간이 지나면 선택한 방식으로 처리합니다</p>
+                </div>
+
+                <div className="grid grid-cols-2 gap-3">
+                  <div>
+                    <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">Tournament</label>
+                    <select
+                      className="glass-input w-full px-4 py-3 rounded-lg focus:border-cyan-500 dark:focus:border-ai-primary outline-none text-slate-800 dark:text-white bg-gray-50 dark:bg-black/50"
+                      value={createFormTournamentGames}
+                      onChange={e => setCreateFormTournamentGames(e.target.value)}
+                    >
+                      {Array.from({ length: MAX_TOURNAMENT_GAMES }, (_, i) => i + 1).map(n => (
+                        <option key={n} value={n} className="bg-white dark:bg-slate-900">{n === 1 ? '단판' : `${n}판 대회`}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <div>
+                    <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">Standings</label>
+                    <select
+                      className="glass-input w-full px-4 py-3 rounded-lg focus:border-cyan-500 dark:focus:border-ai-primary outline-none text-slate-800 dark:text-white bg-gray-50 dark:bg-black/50 disabled:opacity-40"
+                      value={createFormTournamentAggregation}
+                      disabled={createFormTournamentGames === '1'}
+                      onChange={e => setCreateFormTournamentAggregation(e.target.value as TournamentAggregation)}
+                    >
+                      {TOURNAMENT_AGGREGATIONS.map(a => (
+                        <option key={a.id} value={a.id} className="bg-white dark:bg-slate-900">{a.label}</option>
+                      ))}
+                    </select>
+                  </div>
+                  <p className="col-span-2 text-[10px] text-gray-500 dark:text-gray-400">같은 팀으로 여러 판을 이어서 하고 종합 순위를 냅니다</p>
+                </div>
+
                 {/* Game Mode Info - Always RANDOM_BOARD */}
                 <div className="p-3 bg-pink-50 dark:bg-ai-accent/10 rounded-lg border border-pink-200 dark:border-ai-accent/30">
                   <div className="flex items-center gap-2">
@@ -1502,52 +1387,52 @@ const App: React.FC = () => {
                     <span className="font-bold text-sm text-pink-700 dark:text-ai-accent">🎲 숫자판 모드</span>
                   </div>
                   <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">
-                    A1~H5 숫자가 숨겨진 상태에서 클릭하거나 랜덤으로 공개 후 출제
+                    덮개 아래 숫자가 숨겨진 상태에서 클릭하거나 랜덤으로 공개 후 출제
                   </p>
                 </div>
 
                 <button
-                  onClick={() => createCompanyGame(createFormName, createFormTeams)}
+                  onClick={() => createCompanyGame(createFormName, createFormTeams, createFormBoardSize, createFormScoreTable, createFormDeckPreset, createFormSeed, createFormAIDifficulty, createFormDecisionMode, createFormPlayerAids, createFormTimeLimit, createFormTimeoutPolicy, createFormTournamentGames, createFormTournamentAggregation)}
                   className="w-full py-4 mt-2 font-bold rounded-lg transition-all shadow-lg flex items-center justify-center gap-2 uppercase tracking-wider bg-pink-600 text-white dark:bg-ai-accent/10 border dark:border-ai-accent dark:text-ai-accent hover:bg-pink-700 dark:hover:bg-ai-accent dark:hover:text-black"
                 >
                   <Building2 className="w-5 h-5" /> Create Game
                 </button>
 
                 {/* Existing Games Section for Admin */}
-                {safeGames.length > 0 && (
+                {lobbyGames.length > 0 && (
                   <div className="mt-6 pt-6 border-t border-gray-200 dark:border-white/10">
                     <div className="flex justify-between items-center mb-3">
                       <h3 className="text-sm font-bold text-slate-700 dark:text-gray-300 flex items-center gap-2">
                         <Users className="w-4 h-4" /> 기존 게임 입장
                       </h3>
-                      <button onClick={refreshGamesFromFirebase} className="text-xs text-cyan-600 dark:text-ai-primary flex items-center gap-1 hover:text-cyan-800 dark:hover:text-white transition-colors">
+                      <button onClick={refreshGames} className="text-xs text-cyan-600 dark:text-ai-primary flex items-center gap-1 hover:text-cyan-800 dark:hover:text-white transition-colors">
                         <RefreshCw className="w-3 h-3" /> Refresh
                       </button>
                     </div>
                     <div className="space-y-2 max-h-[200px] overflow-y-auto pr-1 custom-scrollbar">
-                      {safeGames.filter(g => !g.gameEnded).map(g => {
+                      {lobbyGames.filter(g => g.phase !== 'ENDED' && g.phase !== 'ABORTED').map(g => {
                         const safeTeams = Array.isArray(g.teams) ? g.teams : [];
-                        const joinedTeams = safeTeams.filter(t => (Array.isArray(t.players) ? t.players : []).length > 0).length;
+                        const joinedTeams = safeTeams.filter(t => t.playerCount > 0).length;
                         return (
                           <div
-                            key={generateGameId(g.companyName)}
+                            key={g.gameId}
                             className="flex items-center justify-between p-3 border border-gray-200 dark:border-white/10 rounded-lg bg-gray-50 dark:bg-white/5 hover:bg-cyan-50 dark:hover:bg-ai-primary/10 hover:border-cyan-300 dark:hover:border-ai-primary/50 transition-all"
                           >
                             <div>
                               <h4 className="font-bold text-sm text-slate-800 dark:text-white">{g.companyName}</h4>
                               <p className="text-[10px] text-gray-500 font-mono">
                                 {joinedTeams}/{g.teamCount} Teams •
-                                <span className={`ml-1 ${g.gameStarted ? 'text-green-600 dark:text-ai-success' : 'text-blue-600 dark:text-blue-400'}`}>
-                                  {g.gameStarted ? '진행중' : '대기중'}
+                                <span className={`ml-1 ${g.phase !== 'LOBBY' ? 'text-green-600 dark:text-ai-success' : 'text-blue-600 dark:text-blue-400'}`}>
+                                  {getGamePhaseLabel(g.phase)}
                                 </span>
                               </p>
                             </div>
                             <button
                               onClick={() => {
-                                // Enter directly as HOST (admin dashboard)
+                                // Enter directly as HOST (admin dashboard); the room itself loads once subscribed
                                 setSession({
-                                  gameId: generateGameId(g.companyName),
-                                  game: g,
+                                  gameId: g.gameId,
+                                  game: null,
                                   role: 'HOST',
                                   myTeamId: null,
                                   myPlayerId: null,
@@ -1569,29 +1454,31 @@ const App: React.FC = () => {
               <div className="space-y-4 animate-fade-in">
                 <div className="flex justify-between items-center mb-2">
                   <h3 className="text-sm font-bold text-slate-700 dark:text-gray-300">Active Games</h3>
-                  <button onClick={refreshGamesFromFirebase} className="text-xs text-cyan-600 dark:text-ai-primary flex items-center gap-1 hover:text-cyan-800 dark:hover:text-white transition-colors">
+                  <button onClick={refreshGames} className="text-xs text-cyan-600 dark:text-ai-primary flex items-center gap-1 hover:text-cyan-800 dark:hover:text-white transition-colors">
                     <RefreshCw className="w-3 h-3" /> Refresh
                   </button>
                 </div>
 
                 <div className="space-y-3 max-h-[350px] overflow-y-auto pr-1 custom-scrollbar">
-                  {safeGames.map(g => {
+                  {lobbyGames.map(g => {
                     const safeTeams = Array.isArray(g.teams) ? g.teams : [];
-                    const activeCount = safeTeams.reduce((acc, t) => acc + (Array.isArray(t.players) ? t.players : []).length, 0);
-                    const joinedTeams = safeTeams.filter(t => (Array.isArray(t.players) ? t.players : []).length > 0).length;
+                    const activeCount = safeTeams.reduce((acc, t) => acc + t.playerCount, 0);
+                    const joinedTeams = safeTeams.filter(t => t.playerCount > 0).length;
+                    const isEnded = g.phase === 'ENDED' || g.phase === 'ABORTED';
+                    const isStarted = g.phase !== 'LOBBY';
                     return (
-                      <div key={generateGameId(g.companyName)} className="border border-gray-200 dark:border-white/10 rounded-lg p-4 bg-gray-50 dark:bg-white/5 hover:bg-gray-100 dark:hover:bg-white/10 hover:border-cyan-300 dark:hover:border-ai-primary/50 transition-all cursor-pointer group">
+                      <div key={g.gameId} className="border border-gray-200 dark:border-white/10 rounded-lg p-4 bg-gray-50 dark:bg-white/5 hover:bg-gray-100 dark:hover:bg-white/10 hover:border-cyan-300 dark:hover:border-ai-primary/50 transition-all cursor-pointer group">
                         <div className="flex justify-between items-start mb-2">
                           <h4 className="font-bold text-lg text-slate-800 dark:text-white group-hover:text-cyan-600 dark:group-hover:text-ai-primary transition-colors">{g.companyName}</h4>
                           <div className="flex items-center gap-2">
-                            <span className={`px-2 py-1 rounded text-[10px] font-mono font-bold uppercase ${g.gameEnded ? 'bg-gray-200 text-gray-500' : g.gameStarted ? 'bg-green-100 text-green-600 dark:bg-ai-success/10 dark:text-ai-success' : 'bg-blue-100 text-blue-600 dark:bg-blue-500/10 dark:text-blue-400'}`}>
-                              {g.gameEnded ? 'Ended' : g.gameStarted ? 'Playing' : 'Waiting'}
+                            <span className={`px-2 py-1 rounded text-[10px] font-mono font-bold uppercase ${isEnded ? 'bg-gray-200 text-gray-500' : isStarted ? 'bg-green-100 text-green-600 dark:bg-ai-success/10 dark:text-ai-success' : 'bg-blue-100 text-blue-600 dark:bg-blue-500/10 dark:text-blue-400'}`}>
+                              {isEnded ? 'Ended' : isStarted ? 'Playing' : 'Waiting'}
                             </span>
                             {currentUser.role === 'ADMIN' && (
                               <button
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  deleteGame(generateGameId(g.companyName));
+                                  deleteGame(g.gameId);
                                 }}
                                 className="p-1.5 rounded bg-red-100 hover:bg-red-500 text-red-500 hover:text-white dark:bg-red-500/10 dark:hover:bg-red-500 dark:text-red-400 dark:hover:text-white transition-all"
                                 title="게임 삭제 (관리자 전용)"
@@ -1605,9 +1492,9 @@ const App: React.FC = () => {
                           {joinedTeams}/{g.teamCount} Teams • {activeCount} Players •
                           <span className="ml-1 text-pink-600 dark:text-ai-accent">🎲숫자판</span>
                         </p>
-                        {!g.gameEnded && (
+                        {!isStarted && (
                           <button
-                            onClick={() => setSelectedGameId(generateGameId(g.companyName))}
+                            onClick={() => setSelectedGameId(g.gameId)}
                             className="w-full py-2 bg-cyan-50 dark:bg-ai-primary/10 border border-cyan-200 dark:border-ai-primary/30 text-cyan-700 dark:text-ai-primary text-xs font-bold rounded hover:bg-cyan-100 dark:hover:bg-ai-primary dark:hover:text-black transition-all uppercase tracking-widest"
                           >
                             Enter Room
@@ -1616,7 +1503,7 @@ const App: React.FC = () => {
                       </div>
                     );
                   })}
-                  {safeGames.length === 0 && (
+                  {lobbyGames.length === 0 && (
                      <div className="text-center py-8 text-gray-500 text-sm font-mono border border-dashed border-gray-300 dark:border-white/10 rounded-lg">
                        No active games found.
                      </div>
@@ -1632,7 +1519,7 @@ const App: React.FC = () => {
                  <div className="bg-cyan-50 dark:bg-ai-primary/5 p-4 rounded-lg border border-cyan-200 dark:border-ai-primary/20">
                    <p className="text-xs text-cyan-700 dark:text-ai-primary font-bold mb-1 font-mono uppercase">Selected Game</p>
                    <p className="text-lg font-bold text-slate-800 dark:text-white">
-                     {safeGames.find(g => generateGameId(g.companyName) === selectedGameId)?.companyName}
+                     {lobbyGames.find(g => g.gameId === selectedGameId)?.companyName}
                    </p>
                  </div>
 
@@ -1649,17 +1536,18 @@ const App: React.FC = () => {
                  <div>
                    <label className="block text-xs font-mono font-bold text-gray-500 dark:text-ai-dim mb-2 uppercase">Select Team</label>
                    <div className="grid grid-cols-4 gap-2 max-h-[150px] overflow-y-auto custom-scrollbar pr-1">
-                     {(Array.isArray(safeGames.find(g => generateGameId(g.companyName) === selectedGameId)?.teams) ? safeGames.find(g => generateGameId(g.companyName) === selectedGameId)!.teams : []).map((t, i) => (
+                     {(Array.isArray(lobbyGames.find(g => g.gameId === selectedGameId)?.teams) ? lobbyGames.find(g => g.gameId === selectedGameId)!.teams : []).map((t, i) => (
                        <button
                          key={t.teamNumber}
                          onClick={() => setJoinTeamIdx(i)}
-                         className={`p-2 rounded border font-mono text-sm transition-all ${
+                         disabled={t.isAI}
+                         className={`p-2 rounded border font-mono text-sm transition-all disabled:opacity-40 disabled:cursor-not-allowed ${
                            joinTeamIdx === i 
                              ? 'bg-purple-600 text-white border-purple-600 dark:bg-ai-secondary dark:border-ai-secondary shadow-md' 
                              : 'bg-gray-100 border-gray-200 text-gray-500 hover:bg-gray-200 dark:bg-white/5 dark:border-white/10 dark:text-gray-400 dark:hover:bg-white/10 dark:hover:text-white'
                          }`}
                        >
-                         {t.teamNumber}조
+                         {t.teamNumber}조{t.isAI && ' 🤖'}
                        </button>
                      ))}
                    </div>
@@ -1889,6 +1777,20 @@ const App: React.FC = () => {
         <HostView
           game={activeGame}
           onStartGame={startCompanyGame}
+          onAddAITeam={addAITeam}
+          onBuildDebrief={buildDebrief}
+          onAssignTeamRole={assignTeamRole}
+          onSetPlayerAid={setPlayerAid}
+          onUndoReveal={undoLastReveal}
+          onRematch={rematchGame}
+          onSetTournament={setTournament}
+          onPauseGame={pauseGame}
+          onResumeGame={resumeGame}
+          onAbortGame={abortGame}
+          onPauseTimer={pauseRoundTimer}
+          onResumeTimer={resumeRoundTimer}
+          onResolveTimeout={resolveRoundTimeout}
+          teamChats={teamChats}
           onSelectRandomCell={selectRandomCell}
           onSubmitRandomNumber={submitRandomNumber}
           onRandomReveal={randomRevealCell}
@@ -1901,6 +1803,11 @@ const App: React.FC = () => {
           team={activePlayerTeam}
           me={myself!}
           onPlaceNumber={placeNumberInTeam}
+          onProposeCell={proposeCell}
+          onConfirmPlacement={confirmPlacement}
+          onVoteCaptain={voteCaptain}
+          chatMessages={teamChats[String(session.myTeamId)] || []}
+          onSendChat={sendTeamChat}
         />
       ) : (
          session.role === 'PLAYER' && <div className="text-slate-800 dark:text-white text-center mt-20 animate-pulse">Loading Game State...</div>
@@ -0,0 +1,272 @@
+import { AIDifficulty, DebriefRound, GameState, PlacementContext, PlacementStrategy } from './types';
+import { analyzeBoard, createSeededRandom, getAIDifficulty, getBoardSize, getRemainingDeck, getScoringRules, restoreBoardArray, shuffleDeck } from './utils';
+
+// ==========================================
+// AI OPPONENT
+// ==========================================
+// Placement strategies for AI teams, one per difficulty level. Every decision
+// is a pure function of the game state and its seed, so a replayed game
+// reproduces the AI's moves exactly.
+
+type Cell = number | string | null;
+
+export const AI_PLAYER_NAME = '🤖 AI';
+
+export const AI_DIFFICULTIES: { id: AIDifficulty; label: string; description: string }[] = [
+  { id: 'RANDOM', label: '입문', description: '빈 칸에 무작위로 배치' },
+  { id: 'GREEDY', label: '초급', description: '숫자 크기 비율대로 정렬 유지' },
+  { id: 'EXPECTED', label: '중급', description: '남은 카드 분포로 위치 계산' },
+  { id: 'MONTE_CARLO', label: '고급', description: '남은 게임을 시뮬레이션해 최적 위치 탐색' }
+];
+
+export const getAIDifficultyLabel = (id: AIDifficulty) => AI_DIFFICULTIES.find(d => d.id === id)?.label || id;
+
+// Simulated futures per candidate cell when estimating expected score: as many
+// as fit in the draw budget (cells x futures x rounds left), within these bounds.
+// The budget keeps one decision to a few tens of milliseconds, since AI teams
+// place inside the reducer.
+const MIN_ROLLOUTS = 16;
+const MAX_ROLLOUTS = 100;
+const SIMULATED_DRAW_BUDGET = 6000;
+
+const getEmptyCells = (board: Cell[]) =>
+  board.reduce<number[]>((acc, cell, idx) => (cell === null ? [...acc, idx] : acc), []);
+
+const countFilledNeighbours = (board: Cell[], idx: number) =>
+  (idx > 0 && board[idx - 1] !== null ? 1 : 0) + (idx < board.length - 1 && board[idx + 1] !== null ? 1 : 0);
+
+// Nearest numeric value to the left / right of a cell (jokers are skipped)
+const findNumericNeighbour = (board: Cell[], idx: number, step: -1 | 1) => {
+  for (let k = idx + step; k >= 0 && k < board.length; k += step) {
+    const cell = board[k];
+    if (typeof cell === 'number') return { index: k, value: cell };
+  }
+  return null;
+};
+
+const keepsOrder = (left: { value: number } | null, right: { value: number } | null, value: number) =>
+  !(left && left.value > value) && !(right && right.value < value);
+
+// A joker goes where it scores best right now, preferring cells between filled neighbours
+const placeJoker = ({ board, value, rules }: PlacementContext, empties: number[]) => {
+  let best = empties[0];
+  let bestScore = -1;
+  empties.forEach(idx => {
+    const trial = [...board];
+    trial[idx] = value;
+    const score = analyzeBoard(trial, rules).totalScore * 10 + countFilledNeighbours(board, idx);
+    if (score > bestScore) {
+      bestScore = score;
+      best = idx;
+    }
+  });
+  return best;
+};
+
+// Shared shape of the sorted-range strategies: among the empty cells that keep
+// the board in order, take the one nearest the target returned by `fraction`
+// (0 = just right of the left neighbour, 1 = just left of the right one).
+// When no cell keeps the order, dump the number where it breaks the fewest connections.
+const placeInGap = (
+  context: PlacementContext,
+  fraction: (value: number, low: number, high: number) => number
+) => {
+  const { board } = context;
+  const value = context.value as number;
+  const empties = getEmptyCells(board);
+  let best = -1;
+  let bestDistance = Infinity;
+
+  empties.forEach(idx => {
+    const left = findNumericNeighbour(board, idx, -1);
+    const right = findNumericNeighbour(board, idx, 1);
+    if (!keepsOrder(left, right, value)) return;
+
+    const first = left ? left.index + 1 : 0;
+    const last = right ? right.index - 1 : board.length - 1;
+    const target = first + fraction(value, left ? left.value : -Infinity, right ? right.value : Infinity) * (last - first);
+    const distance = Math.abs(idx - target);
+    if (distance < bestDistance) {
+      bestDistance = distance;
+      best = idx;
+    }
+  });
+
+  if (best !== -1) return best;
+  return empties.reduce((a, b) => (countFilledNeighbours(board, b) < countFilledNeighbours(board, a) ? b : a));
+};
+
+// RANDOM: any empty cell
+const randomStrategy: PlacementStrategy = ({ board, random }) => {
+  const empties = getEmptyCells(board);
+  return empties.length > 0 ? empties[Math.floor(random() * empties.length)] : -1;
+};
+
+// GREEDY: keep sorted ranges, placing by the number's value scaled linearly
+// between its neighbours (or the deck's smallest / largest card)
+const greedyStrategy: PlacementStrategy = context => {
+  const empties = getEmptyCells(context.board);
+  if (empties.length <= 1) return empties[0] ?? -1;
+  if (typeof context.value !== 'number') return placeJoker(context, empties);
+
+  const numbers = [...context.remaining, context.value].filter((v): v is number => typeof v === 'number');
+  const deckMin = Math.min(...numbers);
+  const deckMax = Math.max(...numbers);
+  return placeInGap(context, (value, low, high) => {
+    const from = Number.isFinite(low) ? low : deckMin;
+    const to = Number.isFinite(high) ? high : deckMax;
+    return to > from ? (value - from) / (to - from) : 0.5;
+  });
+};
+
+// EXPECTED: place by the number's rank among the remaining cards that could
+// still land in the same gap, i.e. where it is expected to sit once filled
+const expectedValueStrategy: PlacementStrategy = context => {
+  const empties = getEmptyCells(context.board);
+  if (empties.length <= 1) return empties[0] ?? -1;
+  if (typeof context.value !== 'number') return placeJoker(context, empties);
+
+  const numbers = context.remaining.filter((v): v is number => typeof v === 'number');
+  return placeInGap(context, (value, low, high) => {
+    const inGap = numbers.filter(v => v > low && v < high);
+    const below = inGap.filter(v => v < value).length + inGap.filter(v => v === value).length / 2;
+    return inGap.length > 0 ? below / inGap.length : 0.5;
+  });
+};
+
+// Plays out the rest of the game with the EXPECTED strategy and returns the final score
+const rollout = (context: PlacementContext, draws: (number | string)[]) => {
+  const current = [...context.board];
+  const unseen = [...context.remaining];
+  draws.forEach(draw => {
+    unseen.splice(unseen.indexOf(draw), 1);
+    const idx = expectedValueStrategy({ ...context, board: current, value: draw, remaining: unseen });
+    if (idx !== -1) current[idx] = draw;
+  });
+  return analyzeBoard(current, context.rules).totalScore;
+};
+
+// Cells worth simulating: the ones that keep the board in order, or every
+// empty cell when none does (and for jokers, which fit anywhere)
+const getCandidateCells = ({ board, value }: PlacementContext) => {
+  const empties = getEmptyCells(board);
+  if (typeof value !== 'number') return empties;
+  const ordered = empties.filter(idx =>
+    keepsOrder(findNumericNeighbour(board, idx, -1), findNumericNeighbour(board, idx, 1), value));
+  return ordered.length > 0 ? ordered : empties;
+};
+
+const getRolloutCount = (cellCount: number, roundsLeft: number) =>
+  Math.min(MAX_ROLLOUTS, Math.max(MIN_ROLLOUTS, Math.floor(SIMULATED_DRAW_BUDGET / Math.max(1, cellCount * roundsLeft))));
+
+// Average final score of placing the value in each given cell (default: every
+// empty one), over sampled futures (default: as many as the draw budget allows). Every candidate is judged against the same
+// futures so the comparison isn't swamped by sampling noise.
+export const estimatePlacementValues = (
+  context: PlacementContext,
+  cells: number[] = getEmptyCells(context.board),
+  rollouts: number = getRolloutCount(cells.length, context.roundsLeft)
+): { index: number; expected: number }[] => {
+  const { board, value, remaining, roundsLeft, random } = context;
+  const futures = Array.from({ length: rollouts }, () => shuffleDeck(remaining, random).slice(0, roundsLeft));
+
+  return cells.map(index => {
+    const trial = [...board];
+    trial[index] = value;
+    const total = futures.reduce((sum, draws) => sum + rollout({ ...context, board: trial }, draws), 0);
+    return { index, expected: total / rollouts };
+  });
+};
+
+// MONTE_CARLO: the candidate cell with the best expected final score
+const monteCarloStrategy: PlacementStrategy = context => {
+  const candidates = getCandidateCells(context);
+  if (candidates.length <= 1) return candidates[0] ?? -1;
+
+  return estimatePlacementValues(context, candidates).reduce((best, cell) => (cell.expected > best.expected ? cell : best)).index;
+};
+
+export const PLACEMENT_STRATEGIES: Record<AIDifficulty, PlacementStrategy> = {
+  RANDOM: randomStrategy,
+  GREEDY: greedyStrategy,
+  EXPECTED: expectedValueStrategy,
+  MONTE_CARLO: monteCarloStrategy
+};
+
+// Seed of one AI decision, so each round and team gets its own stream
+const getDecisionSeed = (state: GameState, round: number, teamIndex: number) =>
+  ((state.seed ?? 0) ^ Math.imul(round + 1, 0x9E3779B1) ^ Math.imul(teamIndex + 1, 0x85EBCA6B)) >>> 0;
+
+// What a strategy sees when placing the current number on a team's board
+const buildPlacementContext = (state: GameState, teamIndex: number): PlacementContext | null => {
+  const team = (Array.isArray(state.teams) ? state.teams : [])[teamIndex];
+  const value = state.currentNumber;
+  if (!team || value === null || value === undefined) return null;
+
+  const boardSize = getBoardSize(state);
+  const remaining = getRemainingDeck(state);
+  return {
+    board: restoreBoardArray(team.board, boardSize),
+    value,
+    remaining,
+    roundsLeft: Math.min(boardSize - state.currentRound, remaining.length),
+    rules: getScoringRules(state),
+    random: createSeededRandom(getDecisionSeed(state, state.currentRound, teamIndex))
+  };
+};
+
+// Picks the cell for the current number using the game's AI difficulty
+export const chooseAIPlacement = (state: GameState, teamIndex: number): number => {
+  const context = buildPlacementContext(state, teamIndex);
+  return context ? PLACEMENT_STRATEGIES[getAIDifficulty(state)](context) : -1;
+};
+
+// Expected final score of each empty cell for the current number, sampled with
+// the same rollout budget as the MONTE_CARLO strategy (drives the placement
+// preview's hints; callers compute it once per number)
+export const estimateTeamPlacements = (state: GameState, teamIndex: number): { index: number; expected: number }[] => {
+  const context = buildPlacementContext(state, teamIndex);
+  return context ? estimatePlacementValues(context) : [];
+};
+
+// Replays a finished team's placements and, for every round, compares the
+// chosen cell with the MONTE_CARLO pick from the same board and remaining deck.
+// Regret is the expected final score lost by the team's choice.
+export const buildTeamDebrief = (state: GameState, teamIndex: number): DebriefRound[] => {
+  const team = (Array.isArray(state.teams) ? state.teams : [])[teamIndex];
+  if (!team) return [];
+
+  const boardSize = getBoardSize(state);
+  const rules = getScoringRules(state);
+  const usedNumbers = Array.isArray(state.usedNumbers) ? state.usedNumbers : [];
+  const placements = [...(Array.isArray(team.placements) ? team.placements : [])].sort((a, b) => a.round - b.round);
+  const board: Cell[] = Array(boardSize).fill(null);
+
+  return placements.map(placement => {
+    const remaining = getRemainingDeck({ availableNumbers: state.availableNumbers, usedNumbers: usedNumbers.slice(0, placement.round) });
+    const context: PlacementContext = {
+      board,
+      value: placement.value,
+      remaining,
+      roundsLeft: Math.min(boardSize - placement.round, remaining.length),
+      rules,
+      random: createSeededRandom(getDecisionSeed(state, placement.round, teamIndex))
+    };
+    const candidates = getCandidateCells(context);
+    // The team's own cell is always scored, even when it broke the order
+    const values = estimatePlacementValues(context, candidates.includes(placement.position) ? candidates : [...candidates, placement.position]);
+    board[placement.position] = placement.value;
+
+    const best = values.reduce((a, b) => (b.expected > a.expected ? b : a), values[0]);
+    const chosen = values.find(v => v.index === placement.position) || best;
+    return {
+      round: placement.round,
+      value: placement.value,
+      chosenIndex: placement.position,
+      bestIndex: best.index,
+      chosenExpected: Math.round(chosen.expected * 10) / 10,
+      bestExpected: Math.round(best.expected * 10) / 10,
+      regret: Math.round((best.expected - chosen.expected) * 10) / 10
+    };
+  });
+};
@@ -1,6 +1,7 @@
 
 import React, { useState, useMemo, useCallback } from 'react';
-import { Member, AccessLog } from '../types';
+import { Member, AccessLog, DeckPresetId } from '../types';
+import { DECK_PRESETS, getDeckPreset, generateRandomBoardNumbers, generateGridLabels } from '../utils';
 import { Panel, Button, Input } from './UI';
 import { UserPlus, Shield, Clock, FileText, Search, UserCheck, Trash2, CalendarPlus, RefreshCcw, X, Dices, RotateCcw } from 'lucide-react';
 
@@ -32,39 +33,15 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
   const [revealedCovers, setRevealedCovers] = useState<Set<string>>(new Set());
   const [boardKey, setBoardKey] = useState(0); // Used to reset the board
 
-  // Generate shuffled numbers for the board (1-10, 11-19, 11-19, 20-30, ★)
-  const shuffledNumbers = useMemo(() => {
-    const numbers: (number | string)[] = [];
-    // 1-10 (10 numbers)
-    for (let i = 1; i <= 10; i++) numbers.push(i);
-    // 11-19 (9 numbers) - first set
-    for (let i = 11; i <= 19; i++) numbers.push(i);
-    // 11-19 (9 numbers) - second set
-    for (let i = 11; i <= 19; i++) numbers.push(i);
-    // 20-30 (11 numbers)
-    for (let i = 20; i <= 30; i++) numbers.push(i);
-    // Joker (★)
-    numbers.push('★');
+  const [deckPreset, setDeckPreset] = useState<DeckPresetId>('CLASSIC');
 
-    // Shuffle using Fisher-Yates algorithm
-    for (let i = numbers.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [numbers[i], numbers[j]] = [numbers[j], numbers[i]];
-    }
-    return numbers;
-  }, [boardKey]);
+  // Shuffled deck for the board, reshuffled on reset or preset change
+  const shuffledNumbers = useMemo(() => {
+    return generateRandomBoardNumbers(getDeckPreset(deckPreset).spec);
+  }, [boardKey, deckPreset]);
 
-  // Grid labels (A1-H5)
-  const gridLabels = useMemo(() => {
-    const labels: string[] = [];
-    const rows = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
-    for (const row of rows) {
-      for (let col = 1; col <= 5; col++) {
-        labels.push(`${row}${col}`);
-      }
-    }
-    return labels;
-  }, []);
+  // Grid labels (A1, A2, ...), one per card
+  const gridLabels = useMemo(() => generateGridLabels(shuffledNumbers.length), [shuffledNumbers.length]);
 
   // Reveal a random cover
   const handleRandomReveal = useCallback(() => {
@@ -343,9 +320,21 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
                   </div>
                 </div>
                 <div className="flex gap-3">
+                  <select
+                    value={deckPreset}
+                    onChange={e => {
+                      setDeckPreset(e.target.value as DeckPresetId);
+                      setRevealedCovers(new Set());
+                    }}
+                    className="px-3 py-3 bg-gray-100 dark:bg-black/50 border border-gray-300 dark:border-white/20 text-slate-800 dark:text-white font-bold rounded-xl outline-none"
+                  >
+                    {DECK_PRESETS.map(preset => (
+                      <option key={preset.id} value={preset.id} className="bg-white dark:bg-slate-900">{preset.label}</option>
+                    ))}
+                  </select>
                   <button
                     onClick={handleRandomReveal}
-                    disabled={revealedCovers.size >= 40}
+                    disabled={revealedCovers.size >= gridLabels.length}
                     className="flex items-center gap-2 px-5 py-3 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white font-bold rounded-xl shadow-lg hover:shadow-pink-500/30 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     <Dices className="w-5 h-5" /> 랜덤 숫자 출제
@@ -363,11 +352,11 @@ export const AdminDashboard: React.FC<AdminDashboardProps> = ({
               <div className="flex gap-4 mb-4 shrink-0">
                 <div className="px-4 py-2 bg-pink-50 dark:bg-ai-accent/10 rounded-lg border border-pink-200 dark:border-ai-accent/30">
                   <span className="text-xs text-gray-500 dark:text-ai-dim">공개된 숫자</span>
-                  <span className="text-lg font-bold text-pink-600 dark:text-ai-accent ml-2">{revealedCovers.size}/40</span>
+                  <span className="text-lg font-bold text-pink-600 dark:text-ai-accent ml-2">{revealedCovers.size}/{gridLabels.length}</span>
                 </div>
                 <div className="px-4 py-2 bg-purple-50 dark:bg-ai-secondary/10 rounded-lg border border-purple-200 dark:border-ai-secondary/30">
                   <span className="text-xs text-gray-500 dark:text-ai-dim">남은 덮개</span>
-                  <span className="text-lg font-bold text-purple-600 dark:text-ai-secondary ml-2">{40 - revealedCovers.size}</span>
+                  <span className="text-lg font-bold text-purple-600 dark:text-ai-secondary ml-2">{gridLabels.length - revealedCovers.size}</span>
                 </div>
               </div>
 
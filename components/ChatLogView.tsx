@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+import { Team, TeamChatLog } from '../types';
+import { X, MessageCircle } from 'lucide-react';
+
+interface ChatLogViewProps {
+  teams: Team[];
+  chats: TeamChatLog;
+  onClose: () => void;
+}
+
+// Host's read-only view of every team's chat, grouped by round for the debrief
+export const ChatLogView: React.FC<ChatLogViewProps> = ({ teams, chats, onClose }) => {
+  const humanTeams = teams.filter(t => !t.isAI && (Array.isArray(t.players) ? t.players : []).length > 0);
+  const [selectedNumber, setSelectedNumber] = useState<number | null>(humanTeams[0]?.teamNumber ?? null);
+
+  const messages = selectedNumber !== null ? chats[String(selectedNumber)] || [] : [];
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-3xl max-h-[90vh] flex flex-col bg-white dark:bg-[#0a0a0f] border border-cyan-500/20 dark:border-ai-primary/20 rounded-2xl shadow-2xl p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-red-500 dark:hover:text-white"
+        >
+          <X className="w-8 h-8" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-4">
+          <MessageCircle className="w-7 h-7 text-cyan-600 dark:text-ai-primary" />
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-white">팀 채팅 기록</h2>
+          <span className="text-xs text-gray-500 dark:text-ai-dim">(읽기 전용)</span>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {humanTeams.map(team => (
+            <button
+              key={team.teamNumber}
+              onClick={() => setSelectedNumber(team.teamNumber)}
+              className={`px-3 py-1.5 rounded border font-mono text-sm transition-all ${
+                selectedNumber === team.teamNumber
+                  ? 'bg-purple-600 text-white border-purple-600 dark:bg-ai-secondary dark:border-ai-secondary'
+                  : 'bg-gray-100 border-gray-200 text-gray-500 hover:bg-gray-200 dark:bg-white/5 dark:border-white/10 dark:text-gray-400 dark:hover:bg-white/10'
+              }`}
+            >
+              {team.teamNumber}조 ({(chats[String(team.teamNumber)] || []).length})
+            </button>
+          ))}
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-1.5 min-h-[12rem]">
+          {messages.length === 0 ? (
+            <p className="text-gray-500 dark:text-ai-dim text-center py-12">채팅 기록이 없습니다.</p>
+          ) : (
+            messages.map((m, idx) => (
+              <React.Fragment key={m.id}>
+                {(idx === 0 || messages[idx - 1].round !== m.round) && (
+                  <div className="pt-2 text-[10px] font-mono uppercase text-cyan-600 dark:text-ai-primary">
+                    {m.round > 0 ? `${m.round}라운드` : '게임 시작 전'}
+                  </div>
+                )}
+                <div className="flex gap-2 text-sm">
+                  <span className="text-[10px] font-mono text-gray-400 shrink-0 pt-0.5">
+                    {new Date(m.sentAt).toLocaleTimeString('ko-KR', { hour: '2-digit', minute: '2-digit' })}
+                  </span>
+                  <span className="font-bold text-slate-800 dark:text-white shrink-0">{m.playerName}</span>
+                  <span className="text-gray-700 dark:text-gray-300 break-words">{m.text}</span>
+                </div>
+              </React.Fragment>
+            ))
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
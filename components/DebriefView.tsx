@@ -0,0 +1,133 @@
+import React, { useState } from 'react';
+import { Team } from '../types';
+import { X, Bot, BarChart3 } from 'lucide-react';
+
+interface DebriefViewProps {
+  teams: Team[];
+  onBuildDebrief: (teamIndex: number) => void;
+  onClose: () => void;
+}
+
+// Post-game debrief: each round's placement next to the cell the
+// MONTE_CARLO strategy would have picked, with the expected points lost.
+export const DebriefView: React.FC<DebriefViewProps> = ({ teams, onBuildDebrief, onClose }) => {
+  // Keep original indices; engine actions address teams by index
+  const activeTeams = teams
+    .map((team, index) => ({ team, index }))
+    .filter(({ team }) => (Array.isArray(team.players) ? team.players : []).length > 0);
+  const [selectedIndex, setSelectedIndex] = useState<number | null>(activeTeams[0]?.index ?? null);
+  const [building, setBuilding] = useState(false);
+
+  const selected = activeTeams.find(t => t.index === selectedIndex)?.team;
+  const rounds = selected && Array.isArray(selected.debrief) ? selected.debrief : null;
+  const totalRegret = rounds ? Math.round(rounds.reduce((sum, r) => sum + r.regret, 0) * 10) / 10 : 0;
+  // The three placements that cost the most are highlighted
+  const costliest = new Set(
+    (rounds || [])
+      .filter(r => r.regret > 0)
+      .sort((a, b) => b.regret - a.regret)
+      .slice(0, 3)
+      .map(r => r.round)
+  );
+
+  const handleBuild = () => {
+    if (selectedIndex === null) return;
+    setBuilding(true);
+    // Let the spinner paint before the (synchronous) analysis blocks the thread
+    setTimeout(() => {
+      onBuildDebrief(selectedIndex);
+      setBuilding(false);
+    }, 50);
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-white dark:bg-[#0a0a0f] border border-cyan-500/20 dark:border-ai-primary/20 rounded-2xl shadow-2xl p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-red-500 dark:hover:text-white"
+        >
+          <X className="w-8 h-8" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-4">
+          <BarChart3 className="w-7 h-7 text-cyan-600 dark:text-ai-primary" />
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-white">디브리프: AI라면 여기에 놓았을 것</h2>
+        </div>
+
+        <div className="flex flex-wrap gap-2 mb-4">
+          {activeTeams.map(({ team, index }) => (
+            <button
+              key={team.teamNumber}
+              onClick={() => setSelectedIndex(index)}
+              className={`px-3 py-1.5 rounded border font-mono text-sm transition-all ${
+                selectedIndex === index
+                  ? 'bg-purple-600 text-white border-purple-600 dark:bg-ai-secondary dark:border-ai-secondary'
+                  : 'bg-gray-100 border-gray-200 text-gray-500 hover:bg-gray-200 dark:bg-white/5 dark:border-white/10 dark:text-gray-400 dark:hover:bg-white/10'
+              }`}
+            >
+              {team.teamNumber}조{team.isAI && ' 🤖'}
+            </button>
+          ))}
+        </div>
+
+        {!selected ? (
+          <p className="text-gray-500 dark:text-ai-dim text-center py-12">참가한 팀이 없습니다.</p>
+        ) : !rounds ? (
+          <div className="flex flex-col items-center justify-center py-12 space-y-3">
+            <p className="text-gray-500 dark:text-ai-dim text-sm">라운드마다 AI가 같은 상황에서 고른 칸과 비교합니다.</p>
+            <button
+              onClick={handleBuild}
+              disabled={building}
+              className="flex items-center gap-2 px-5 py-3 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white font-bold rounded-xl shadow-lg transition-all disabled:opacity-50 disabled:cursor-wait"
+            >
+              <Bot className="w-5 h-5" /> {building ? '분석 중...' : 'AI 분석 실행'}
+            </button>
+          </div>
+        ) : (
+          <>
+            <div className="flex gap-4 mb-3 text-sm">
+              <span className="text-gray-500 dark:text-ai-dim">
+                총 예상 손실 <span className="font-bold text-pink-600 dark:text-ai-accent">{totalRegret}점</span>
+              </span>
+              <span className="text-gray-500 dark:text-ai-dim">
+                AI와 같은 선택 <span className="font-bold text-green-600 dark:text-ai-success">{rounds.filter(r => r.chosenIndex === r.bestIndex).length}/{rounds.length}</span>
+              </span>
+            </div>
+            <div className="flex-1 overflow-y-auto custom-scrollbar">
+              <table className="w-full text-sm">
+                <thead className="sticky top-0 bg-white dark:bg-[#0a0a0f] text-gray-500 dark:text-ai-dim text-xs uppercase">
+                  <tr>
+                    <th className="p-2 text-left">라운드</th>
+                    <th className="p-2 text-left">숫자</th>
+                    <th className="p-2 text-left">선택한 칸</th>
+                    <th className="p-2 text-left">AI 추천 칸</th>
+                    <th className="p-2 text-right">예상 손실</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {rounds.map(r => (
+                    <tr
+                      key={r.round}
+                      className={`border-t border-gray-200 dark:border-white/5 ${costliest.has(r.round) ? 'bg-red-50 dark:bg-red-500/10' : ''}`}
+                    >
+                      <td className="p-2 font-mono text-gray-500">{r.round}</td>
+                      <td className="p-2 font-bold text-slate-800 dark:text-white">{r.value}</td>
+                      <td className="p-2 font-mono text-slate-800 dark:text-gray-200">{r.chosenIndex + 1}번</td>
+                      <td className={`p-2 font-mono ${r.chosenIndex === r.bestIndex ? 'text-green-600 dark:text-ai-success' : 'text-cyan-600 dark:text-ai-primary'}`}>
+                        {r.bestIndex + 1}번
+                      </td>
+                      <td className={`p-2 text-right font-mono font-bold ${r.regret > 0 ? 'text-red-500' : 'text-gray-400'}`}>
+                        {r.regret > 0 ? `-${r.regret}` : '0'}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { GameState } from '../types';
+import { Panel } from './UI';
+import { Layers } from 'lucide-react';
+import { countRemainingCards, getRemainingDeck, getNextCardOdds, getCellFitRange } from '../utils';
+
+interface DeckTrackerPanelProps {
+  game: GameState;
+  board: (number | string | null)[];
+  selectedIndex: number | null; // empty cell whose neighbours prefill the range
+}
+
+const formatPercent = (p: number) => `${Math.round(p * 1000) / 10}%`;
+
+// Remaining copies of every value plus the odds of the next number landing in a range
+export const DeckTrackerPanel: React.FC<DeckTrackerPanelProps> = ({ game, board, selectedIndex }) => {
+  const cards = countRemainingCards(game);
+  const remaining = getRemainingDeck(game);
+  const numbers = cards.map(c => c.value).filter((v): v is number => typeof v === 'number');
+  const deckMin = numbers.length > 0 ? Math.min(...numbers) : 0;
+  const deckMax = numbers.length > 0 ? Math.max(...numbers) : 0;
+
+  const [low, setLow] = useState(String(deckMin));
+  const [high, setHigh] = useState(String(deckMax));
+
+  // Selecting an empty cell fills in the range that would keep it in order;
+  // otherwise (and whenever a card leaves the deck) it spans the remaining deck
+  const selectedIsEmpty = selectedIndex !== null && board[selectedIndex] === null;
+  const boardKey = useMemo(() => board.join(','), [board]);
+  useEffect(() => {
+    const range = selectedIndex !== null && selectedIsEmpty
+      ? getCellFitRange(board, selectedIndex)
+      : { low: deckMin, high: deckMax };
+    setLow(String(Number.isFinite(range.low) ? range.low : deckMin));
+    setHigh(String(Number.isFinite(range.high) ? range.high : deckMax));
+  }, [selectedIndex, selectedIsEmpty, boardKey, deckMin, deckMax, remaining.length]);
+
+  const odds = getNextCardOdds(remaining, Number(low), Number(high));
+
+  return (
+    <Panel className="space-y-3">
+      <div className="flex items-center justify-between">
+        <h3 className="text-sm font-bold text-slate-900 dark:text-white flex items-center gap-1.5">
+          <Layers className="w-4 h-4 text-cyan-600 dark:text-ai-primary" /> 남은 카드
+        </h3>
+        <span className="text-xs font-mono text-gray-500 dark:text-ai-dim">총 {remaining.length}장</span>
+      </div>
+
+      <div className="grid grid-cols-8 sm:grid-cols-10 gap-1">
+        {cards.map(({ value, count }) => (
+          <div
+            key={String(value)}
+            className={`flex flex-col items-center rounded border py-0.5 ${
+              count === 0
+                ? 'border-gray-200 dark:border-white/5 opacity-30'
+                : 'border-cyan-200 dark:border-ai-primary/30 bg-cyan-50 dark:bg-ai-primary/5'
+            }`}
+          >
+            <span className="text-xs font-bold text-slate-800 dark:text-white">{value}</span>
+            <span className="text-[10px] font-mono text-gray-500 dark:text-ai-dim">×{count}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="pt-2 border-t border-gray-200 dark:border-white/10 text-xs text-gray-600 dark:text-gray-300 space-y-1.5">
+        <div className="flex items-center gap-1.5 flex-wrap">
+          <span>다음 숫자가</span>
+          <input
+            className="w-14 px-1.5 py-1 rounded border border-gray-200 dark:border-white/10 bg-gray-50 dark:bg-black/40 text-center font-mono text-slate-800 dark:text-white"
+            value={low}
+            onChange={e => setLow(e.target.value.replace(/[^0-9-]/g, ''))}
+          />
+          <span>~</span>
+          <input
+            className="w-14 px-1.5 py-1 rounded border border-gray-200 dark:border-white/10 bg-gray-50 dark:bg-black/40 text-center font-mono text-slate-800 dark:text-white"
+            value={high}
+            onChange={e => setHigh(e.target.value.replace(/[^0-9-]/g, ''))}
+          />
+          <span>사이일 확률</span>
+          <span className="font-bold text-cyan-600 dark:text-ai-primary text-sm">{formatPercent(odds.inRange)}</span>
+        </div>
+        {odds.joker > 0 && (
+          <p className="text-gray-500 dark:text-ai-dim">★ 조커가 나올 확률 {formatPercent(odds.joker)} (어디든 연결 가능)</p>
+        )}
+        {selectedIsEmpty && (
+          <p className="text-gray-500 dark:text-ai-dim">선택한 {selectedIndex! + 1}번 칸의 양옆 숫자 기준으로 범위를 채웠습니다.</p>
+        )}
+      </div>
+    </Panel>
+  );
+};
@@ -0,0 +1,80 @@
+import React from 'react';
+import { GameState } from '../types';
+import { X, History } from 'lucide-react';
+import { getArchivedGames, getGameNumber, getGamePhase } from '../utils';
+
+interface GameHistoryViewProps {
+  game: GameState;
+  onClose: () => void;
+}
+
+// Every finished game of this room side by side: rank and score per team
+export const GameHistoryView: React.FC<GameHistoryViewProps> = ({ game, onClose }) => {
+  const finishedGames = [...getArchivedGames(game), ...(game.gameEnded ? [game] : [])];
+  const teamNumbers = Array.from(new Set(
+    finishedGames.flatMap(g => (Array.isArray(g.finalRanking) ? g.finalRanking : []).map(r => r.teamNumber))
+  )).sort((a, b) => a - b);
+
+  const resultOf = (g: GameState, teamNumber: number) =>
+    (Array.isArray(g.finalRanking) ? g.finalRanking : []).find(r => r.teamNumber === teamNumber);
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-white dark:bg-[#0a0a0f] border border-cyan-500/20 dark:border-ai-primary/20 rounded-2xl shadow-2xl p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-red-500 dark:hover:text-white"
+        >
+          <X className="w-8 h-8" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-4">
+          <History className="w-7 h-7 text-cyan-600 dark:text-ai-primary" />
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-white">게임별 결과 비교</h2>
+        </div>
+
+        {finishedGames.length === 0 ? (
+          <p className="text-gray-500 dark:text-ai-dim text-center py-12">끝난 게임이 없습니다.</p>
+        ) : (
+          <div className="flex-1 overflow-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs font-mono text-gray-500 dark:text-ai-dim border-b border-gray-200 dark:border-white/10">
+                  <th className="py-2 text-left">팀</th>
+                  {finishedGames.map(g => (
+                    <th key={getGameNumber(g)} className="py-2 text-center">
+                      {getGameNumber(g)}번째 게임
+                      {getGamePhase(g) === 'ABORTED' && <span className="block text-[10px] text-red-500">조기 종료</span>}
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody>
+                {teamNumbers.map(teamNumber => (
+                  <tr key={teamNumber} className="border-b border-gray-100 dark:border-white/5">
+                    <td className="py-2 font-bold text-slate-800 dark:text-white">{teamNumber}조</td>
+                    {finishedGames.map(g => {
+                      const result = resultOf(g, teamNumber);
+                      return (
+                        <td key={getGameNumber(g)} className="py-2 text-center">
+                          {result ? (
+                            <>
+                              <span className="font-mono font-bold text-purple-600 dark:text-ai-secondary">{result.score}점</span>
+                              <span className="ml-1 text-xs text-gray-500 dark:text-ai-dim">({result.rank}위)</span>
+                            </>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
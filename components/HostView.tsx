@@ -1,9 +1,15 @@
 
 import React, { useState, useMemo, useEffect, useRef, useCallback } from 'react';
-import { GameState, Team } from '../types';
+import { GameState, Team, TeamRole, TeamChatLog, PlayerAid, Tournament } from '../types';
 import { Panel, Button, Badge, Footer } from './UI';
-import { Play, Pause, Square, Music, Trophy, Users, Activity, CheckCircle2, Eye, X, ListOrdered, Dices, AlertTriangle } from 'lucide-react';
-import { getScoringGroups, restoreBoardArray } from '../utils';
+import { Play, Pause, Square, Music, Trophy, Users, Activity, CheckCircle2, Eye, X, ListOrdered, Dices, AlertTriangle, Bot, BarChart3, Crown, Shield, MessageCircle, Undo2, RotateCcw, History } from 'lucide-react';
+import { analyzeBoard, restoreBoardArray, getScoringRules, getBoardSize, getBoardLayout, getSnakeCellStyle, getBoardGridStyle, getBoardCenterStyle, generateGridLabels, getDeckSize, getDeckSpec, getAIDifficulty, getPercentOfOptimum, formatHindsightOptimum, getDecisionMode, getDecisionModeLabel, getTeamCaptainId, getTeamViceCaptainId, PLAYER_AIDS, hasPlayerAid, getTimeoutPolicy, getTimeoutPolicyLabel, getGamePhase, getGamePhaseLabel, getGameNumber, getArchivedGames, getTournamentGames } from '../utils';
+import { getAIDifficultyLabel } from '../ai';
+import { DebriefView } from './DebriefView';
+import { ChatLogView } from './ChatLogView';
+import { RoundCountdown } from './RoundCountdown';
+import { GameHistoryView } from './GameHistoryView';
+import { TournamentLeaderboard } from './TournamentLeaderboard';
 
 // YouTube IFrame API types
 declare global {
@@ -51,25 +57,57 @@ const playFanfare = () => {
 interface HostViewProps {
   game: GameState;
   onStartGame: () => void;
-  onSelectRandomCell: (cellLabel: string, value: number | string) => void;
+  onAddAITeam: () => void;
+  onBuildDebrief: (teamIndex: number) => void;
+  onAssignTeamRole: (teamIndex: number, role: TeamRole, playerId: string | null) => void;
+  teamChats: TeamChatLog; // every team's channel, read-only here
+  onSetPlayerAid: (aid: PlayerAid, enabled: boolean) => void;
+  onUndoReveal: () => void;
+  onRematch: () => void;
+  onSetTournament: (tournament: Tournament | null) => void;
+  onPauseGame: () => void;
+  onResumeGame: () => void;
+  onAbortGame: () => void;
+  onPauseTimer: () => void;
+  onResumeTimer: () => void;
+  onResolveTimeout: () => void;
+  onSelectRandomCell: (cellLabel: string) => void;
   onSubmitRandomNumber: () => void;
   onRandomReveal: () => void;
 }
 
-export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectRandomCell, onSubmitRandomNumber, onRandomReveal }) => {
+export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onAddAITeam, onBuildDebrief, onAssignTeamRole, teamChats, onSetPlayerAid, onUndoReveal, onRematch, onSetTournament, onPauseGame, onResumeGame, onAbortGame, onPauseTimer, onResumeTimer, onResolveTimeout, onSelectRandomCell, onSubmitRandomNumber, onRandomReveal }) => {
   // Ensure all arrays exist (Firebase may return objects instead of arrays)
   const gameTeams = Array.isArray(game.teams) ? game.teams : [];
-  const safeTeams = gameTeams.map(t => ({
-    ...t,
-    players: Array.isArray(t.players) ? t.players : [],
-    board: restoreBoardArray(t.board)
-  }));
+  // Scores and run highlighting both come from the same board analysis
+  const scoringRules = getScoringRules(game);
+  const boardSize = getBoardSize(game);
+  const boardLayout = getBoardLayout(boardSize);
+  const safeTeams = gameTeams.map(t => {
+    const board = restoreBoardArray(t.board, boardSize);
+    const analysis = analyzeBoard(board, scoringRules);
+    return {
+      ...t,
+      players: Array.isArray(t.players) ? t.players : [],
+      board,
+      analysis,
+      score: analysis.totalScore
+    };
+  });
   const activeTeams = safeTeams.filter(t => t.players.length > 0);
   const sortedTeams = [...activeTeams].sort((a, b) => b.score - a.score);
+  // Hindsight optimum is only known once the game has ended
+  const optimum = game.gameEnded && typeof game.hindsightOptimum === 'number' ? game.hindsightOptimum : null;
+  // A cut-short search only gives a lower bound, so percentages of it are upper bounds
+  const percentBound = game.hindsightOptimumExact === false ? ' 이하' : '';
 
   // Random board state from game (always RANDOM_BOARD mode)
   const safeRevealedCells = Array.isArray(game.revealedCells) ? game.revealedCells : [];
   const safeRandomBoardNumbers = Array.isArray(game.randomBoardNumbers) ? game.randomBoardNumbers : [];
+  const phase = getGamePhase(game);
+  const isPaused = phase === 'PAUSED';
+  const tournament = game.tournament || null;
+  const tournamentGamesPlayed = getTournamentGames(game).length;
 
   // Sidebar Tab State - only RANKING and RANDOM_BOARD (removed CONTROLS)
   const [activeTab, setActiveTab] = useState<'RANKING' | 'RANDOM_BOARD'>('RANDOM_BOARD');
@@ -77,6 +115,12 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
   // State for Team Detail View Modal
   const [viewingTeam, setViewingTeam] = useState<Team | null>(null);
 
+  // Post-game debrief modal
+  const [showDebrief, setShowDebrief] = useState(false);
+  const [showChatLog, setShowChatLog] = useState(false);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showTournament, setShowTournament] = useState(false);
+
   // Timer state for 1-minute placement timeout alert
   const [placementStartTime, setPlacementStartTime] = useState<number | null>(null);
   const [showTimeoutAlert, setShowTimeoutAlert] = useState(false);
@@ -180,8 +224,6 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
       setMusicStatus('stopped');
     }
   }, []);
-    }
-  }, []);
 
   // Calculate unplaced teams
   const unplacedTeams = useMemo(() => {
@@ -214,7 +256,8 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
 
     const checkTimeout = () => {
       const elapsed = Date.now() - placementStartTime;
-      if (elapsed >= 60000 && unplacedTeams.length > 0) {
+      // Timed games show their own countdown instead
+      if (!game.roundTimer && elapsed >= 60000 && unplacedTeams.length > 0) {
         setShowTimeoutAlert(true);
       }
     };
@@ -225,7 +268,7 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
     // Check every second
     const intervalId = setInterval(checkTimeout, 1000);
     return () => clearInterval(intervalId);
-  }, [placementStartTime, game.waitingForPlacements, unplacedTeams]);
+  }, [placementStartTime, game.waitingForPlacements, unplacedTeams, game.roundTimer]);
 
   // Effect for dramatic number popup when a number is submitted
   useEffect(() => {
@@ -245,17 +288,9 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
     }
   }, [game.currentNumber]);
 
-  // Grid labels (A1-H5) for RANDOM_BOARD mode
-  const gridLabels = useMemo(() => {
-    const labels: string[] = [];
-    const rows = ['A', 'B', 'C', 'D', 'E', 'F', 'G', 'H'];
-    for (const row of rows) {
-      for (let col = 1; col <= 5; col++) {
-        labels.push(`${row}${col}`);
-      }
-    }
-    return labels;
-  }, []);
+  // Cover labels (A1, A2, ...) for RANDOM_BOARD mode, one per card in the deck
+  const deckSize = getDeckSize(getDeckSpec(game));
+  const gridLabels = useMemo(() => generateGridLabels(deckSize), [deckSize]);
 
   // Logic to determine which teams to display in the main grid (Top 8)
   const displayedTeams = useMemo(() => {
@@ -271,20 +306,14 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
   const teamCount = displayedTeams.length;
   const useThreeColumns = teamCount > 4;
 
-  const getGridStyle = (index: number) => {
-    let colStart, rowStart;
-    if (index < 8) {
-      colStart = index + 1;
-      rowStart = 1;
-    } else if (index < 12) {
-      colStart = 8;
-      rowStart = (index - 8) + 2;
-    } else {
-      colStart = 8 - (index - 12);
-      rowStart = 6;
-    }
-    return { gridColumnStart: colStart, gridRowStart: rowStart };
-  };
+  // Roster and roles come from the live game, so role changes show while the modal is open
+  const viewingTeamIndex = viewingTeam ? gameTeams.findIndex(t => t.teamNumber === viewingTeam.teamNumber) : -1;
+  const viewingRosterTeam = viewingTeamIndex !== -1 ? gameTeams[viewingTeamIndex] : viewingTeam;
+  const viewingCaptainId = viewingRosterTeam ? getTeamCaptainId(viewingRosterTeam) : null;
+  const viewingViceCaptainId = viewingRosterTeam ? getTeamViceCaptainId(viewingRosterTeam) : null;
+
+  const viewingBoard = viewingTeam ? restoreBoardArray(viewingTeam.board, boardSize) : [];
+  const viewingAnalysis = viewingTeam ? analyzeBoard(viewingBoard, scoringRules) : null;
 
   // Helper to get background color for scoring groups
   const getGroupColorClass = (groupId: number) => {
@@ -361,9 +390,27 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
 
           {/* Status Badges */}
           <div className="flex gap-4 p-2 glass-panel rounded-xl scale-90 origin-right shadow-sm">
-             <Badge label="라운드" value={`${game.currentRound}/20`} />
+             <Badge label="라운드" value={`${game.currentRound}/${boardSize}`} />
              <Badge label="참가 팀" value={`${activeTeams.length}/${game.teamCount}`} color="text-purple-600 dark:text-ai-secondary" />
-             <Badge label="상태" value={game.gameEnded ? "종료됨" : game.gameStarted ? "진행중" : "대기중"} color={game.gameStarted ? "text-green-600 dark:text-ai-success" : "text-gray-700 dark:text-white"} />
+             {optimum !== null && (
+               <Badge label="최적 점수" value={formatHindsightOptimum(game)} color="text-green-600 dark:text-ai-success" />
+             )}
+             {safeTeams.some(t => t.isAI) && (
+               <Badge label="AI 난이도" value={getAIDifficultyLabel(getAIDifficulty(game))} color="text-cyan-600 dark:text-ai-primary" />
+             )}
+             {getDecisionMode(game) !== 'FIRST_CLICK' && (
+               <Badge label="팀 결정" value={getDecisionModeLabel(getDecisionMode(game))} color="text-pink-600 dark:text-ai-accent" />
+             )}
+             {tournament ? (
+               <Badge label="대회" value={`${getGameNumber(game)}/${tournament.totalGames}판`} color="text-yellow-600 dark:text-yellow-400" />
+             ) : getGameNumber(game) > 1 && (
+               <Badge label="게임" value={`${getGameNumber(game)}번째`} color="text-purple-600 dark:text-ai-secondary" />
+             )}
+             {/* The seed re-derives every cover, so a projected screen shows it only after the game */}
+             {game.gameEnded && game.seed !== undefined && game.seed !== null && (
+               <Badge label="시드" value={String(game.seed)} color="text-gray-700 dark:text-white" />
+             )}
+             <Badge label="상태" value={getGamePhaseLabel(phase)} color={phase === 'PAUSED' ? "text-amber-600 dark:text-amber-400" : game.gameStarted ? "text-green-600 dark:text-ai-success" : "text-gray-700 dark:text-white"} />
           </div>
         </div>
       </header>
@@ -385,6 +432,41 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
             >
               <ListOrdered className="w-3 h-3" /> 순위
             </button>
+            <button
+              onClick={() => setShowChatLog(true)}
+              className="flex-1 flex items-center justify-center gap-1 py-2 text-xs font-bold rounded transition-all text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white"
+            >
+              <MessageCircle className="w-3 h-3" /> 채팅
+            </button>
+            {tournament && (
+              <button
+                onClick={() => setShowTournament(true)}
+                className="flex-1 flex items-center justify-center gap-1 py-2 text-xs font-bold rounded transition-all text-gray-500 hover:text-gray-800 dark:text-gray-400 dark:hover:text-white"
+              >
+                <Trophy className="w-3 h-3" /> 대회
+              </button>
+            )}
+          </div>
+
+          {/* Player aids: on for beginner sessions, off for competitive ones */}
+          <div className="flex flex-wrap gap-1.5 shrink-0">
+            {PLAYER_AIDS.map(aid => {
+              const enabled = hasPlayerAid(game, aid.id);
+              return (
+                <button
+                  key={aid.id}
+                  onClick={() => onSetPlayerAid(aid.id, !enabled)}
+                  title={aid.description}
+                  className={`px-2 py-1 rounded border text-[11px] font-bold transition-all ${
+                    enabled
+                      ? 'bg-green-50 border-green-300 text-green-700 dark:bg-ai-success/10 dark:border-ai-success/40 dark:text-ai-success'
+                      : 'bg-gray-100 border-gray-200 text-gray-400 dark:bg-white/5 dark:border-white/10 dark:text-gray-500'
+                  }`}
+                >
+                  {aid.label} {enabled ? 'ON' : 'OFF'}
+                </button>
+              );
+            })}
           </div>
 
           <Panel className="flex-1 flex flex-col relative overflow-hidden min-h-0 p-4">
@@ -405,11 +487,16 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                           {idx + 1}
                         </span>
                         <div>
-                          <span className="text-sm text-slate-800 dark:text-gray-200 font-bold block">{team.teamNumber}조</span>
+                          <span className="text-sm text-slate-800 dark:text-gray-200 font-bold block">{team.teamNumber}조{team.isAI && ' 🤖'}</span>
                           <span className="text-[10px] text-gray-500">{team.players.length}명</span>
                         </div>
                       </div>
-                      <span className="font-mono font-bold text-cyan-600 dark:text-ai-primary text-lg">{team.score}</span>
+                      <div className="text-right">
+                        <span className="font-mono font-bold text-cyan-600 dark:text-ai-primary text-lg block leading-none">{team.score}</span>
+                        {optimum !== null && (
+                          <span className="text-[10px] font-mono text-green-600 dark:text-ai-success">최적 대비 {getPercentOfOptimum(team.score, optimum)}%{percentBound}</span>
+                        )}
+                      </div>
                     </div>
                   ))}
                 </div>
@@ -437,10 +524,17 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                         <span className="text-lg font-bold text-pink-700 dark:text-ai-accent">🎲 숫자판 모드</span>
                       </div>
                       <p className="text-[10px] text-gray-500 dark:text-gray-400 mt-1">
-                        A1~H5 숫자가 숨겨진 상태에서 랜덤으로 공개 후 출제
+                        {gridLabels[0]}~{gridLabels[gridLabels.length - 1]} 숫자가 숨겨진 상태에서 랜덤으로 공개 후 출제
                       </p>
                     </div>
 
+                    <button
+                      onClick={onAddAITeam}
+                      className="w-full flex items-center justify-center gap-2 px-3 py-2 bg-cyan-50 dark:bg-ai-primary/10 border border-cyan-200 dark:border-ai-primary/30 text-cyan-700 dark:text-ai-primary text-sm font-bold rounded-lg hover:bg-cyan-100 dark:hover:bg-ai-primary/20 transition-all"
+                    >
+                      <Bot className="w-4 h-4" /> AI 팀 추가 ({getAIDifficultyLabel(getAIDifficulty(game))})
+                    </button>
+
                     <div className="w-full pt-3 border-t border-gray-200 dark:border-white/10">
                       <Button
                         onClick={onStartGame}
@@ -458,8 +552,44 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                   /* Game ended */
                   <div className="flex-1 flex flex-col justify-center items-center text-center space-y-4">
                      <Trophy className="w-16 h-16 text-purple-500 dark:text-ai-secondary" />
-                     <h3 className="text-2xl font-display font-bold text-slate-800 dark:text-white">게임 종료</h3>
+                     <h3 className="text-2xl font-display font-bold text-slate-800 dark:text-white">{phase === 'ABORTED' ? '게임 조기 종료' : '게임 종료'}</h3>
                      <p className="text-gray-500 dark:text-ai-dim">우측 리더보드에서 최종 순위를 확인하세요.</p>
+                     <button
+                       onClick={() => setShowDebrief(true)}
+                       className="flex items-center gap-2 px-4 py-2 bg-cyan-50 dark:bg-ai-primary/10 border border-cyan-200 dark:border-ai-primary/30 text-cyan-700 dark:text-ai-primary text-sm font-bold rounded-lg hover:bg-cyan-100 dark:hover:bg-ai-primary/20 transition-all"
+                     >
+                       <BarChart3 className="w-4 h-4" /> 디브리프 보기
+                     </button>
+                     <button
+                       onClick={() => setShowChatLog(true)}
+                       className="flex items-center gap-2 px-4 py-2 bg-cyan-50 dark:bg-ai-primary/10 border border-cyan-200 dark:border-ai-primary/30 text-cyan-700 dark:text-ai-primary text-sm font-bold rounded-lg hover:bg-cyan-100 dark:hover:bg-ai-primary/20 transition-all"
+                     >
+                       <MessageCircle className="w-4 h-4" /> 팀 채팅 기록
+                     </button>
+                     {tournament && (
+                       <button
+                         onClick={() => setShowTournament(true)}
+                         className="flex items-center gap-2 px-4 py-2 bg-yellow-50 dark:bg-yellow-500/10 border border-yellow-300 dark:border-yellow-500/30 text-yellow-700 dark:text-yellow-400 text-sm font-bold rounded-lg hover:bg-yellow-100 dark:hover:bg-yellow-500/20 transition-all"
+                       >
+                         <Trophy className="w-4 h-4" /> 대회 종합 순위
+                       </button>
+                     )}
+                     {!tournament && getArchivedGames(game).length > 0 && (
+                       <button
+                         onClick={() => setShowHistory(true)}
+                         className="flex items-center gap-2 px-4 py-2 bg-cyan-50 dark:bg-ai-primary/10 border border-cyan-200 dark:border-ai-primary/30 text-cyan-700 dark:text-ai-primary text-sm font-bold rounded-lg hover:bg-cyan-100 dark:hover:bg-ai-primary/20 transition-all"
+                       >
+                         <History className="w-4 h-4" /> 게임별 결과 비교
+                       </button>
+                     )}
+                     <div className="w-full pt-3 border-t border-gray-200 dark:border-white/10">
+                       <Button onClick={onRematch} className="w-full py-3">
+                         <RotateCcw className="w-5 h-5" />
+                         {tournament && tournamentGamesPlayed < tournament.totalGames
+                           ? `다음 게임 시작 (${tournamentGamesPlayed + 1}/${tournament.totalGames})`
+                           : '같은 팀으로 재경기'}
+                       </Button>
+                     </div>
                   </div>
                 ) : (
                   /* RANDOM_BOARD mode - Active game */
@@ -469,8 +599,33 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                       <h3 className="text-sm font-bold text-slate-800 dark:text-white flex items-center gap-2">
                         <Dices className="w-4 h-4 text-pink-600 dark:text-ai-accent" /> 🎲 랜덤 숫자 출제
                       </h3>
-                      <span className="text-xs text-pink-600 dark:text-ai-accent font-bold">{safeRevealedCells.length}/40</span>
+                      <span className="text-xs text-pink-600 dark:text-ai-accent font-bold">{safeRevealedCells.length}/{gridLabels.length}</span>
+                    </div>
+
+                    {/* Break / early end */}
+                    <div className="flex gap-2 mb-2 shrink-0">
+                      <button
+                        onClick={isPaused ? onResumeGame : onPauseGame}
+                        className={`flex-1 flex items-center justify-center gap-1 px-3 py-1.5 text-xs font-bold rounded-lg border transition-all ${
+                          isPaused
+                            ? 'bg-green-50 border-green-300 text-green-700 hover:bg-green-100 dark:bg-ai-success/10 dark:border-ai-success/40 dark:text-ai-success'
+                            : 'bg-amber-50 border-amber-300 text-amber-700 hover:bg-amber-100 dark:bg-amber-500/10 dark:border-amber-500/40 dark:text-amber-400'
+                        }`}
+                      >
+                        {isPaused ? <><Play className="w-3 h-3" /> 게임 재개</> : <><Pause className="w-3 h-3" /> 일시정지</>}
+                      </button>
+                      <button
+                        onClick={onAbortGame}
+                        className="flex-1 flex items-center justify-center gap-1 px-3 py-1.5 text-xs font-bold rounded-lg border bg-red-50 border-red-300 text-red-600 hover:bg-red-100 dark:bg-red-500/10 dark:border-red-500/40 dark:text-red-400 transition-all"
+                      >
+                        <Square className="w-3 h-3" /> 조기 종료
+                      </button>
                     </div>
+                    {isPaused && (
+                      <div className="mb-2 p-2 rounded-lg border text-xs font-bold shrink-0 bg-amber-50 dark:bg-amber-500/10 border-amber-200 dark:border-amber-500/30 text-amber-700 dark:text-amber-400">
+                        ⏸ 일시정지 중 - 배치와 출제, 타이머가 멈춰 있습니다
+                      </div>
+                    )}
 
                     {/* Current Selection & Submit */}
                     <div className="mb-2 p-2 bg-gray-900/5 dark:bg-black/40 rounded-lg border border-gray-200 dark:border-white/5 shrink-0">
@@ -495,11 +650,19 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                     <div className="flex gap-2 mb-2 shrink-0">
                       <button
                         onClick={onRandomReveal}
-                        disabled={game.waitingForPlacements || safeRevealedCells.length >= 40}
+                        disabled={isPaused || game.waitingForPlacements || safeRevealedCells.length >= gridLabels.length}
                         className="flex-1 flex items-center justify-center gap-1 px-3 py-2 bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white text-xs font-bold rounded-lg shadow-lg transition-all disabled:opacity-50 disabled:cursor-not-allowed"
                       >
                         <Dices className="w-4 h-4" /> 랜덤 선택
                       </button>
+                      <button
+                        onClick={onUndoReveal}
+                        disabled={game.currentRound < 1 && !game.pendingRandomNumber}
+                        title="마지막 출제 되돌리기"
+                        className="flex items-center justify-center gap-1 px-3 py-2 bg-gray-100 dark:bg-white/5 border border-gray-300 dark:border-white/10 text-gray-700 dark:text-gray-300 text-xs font-bold rounded-lg hover:bg-gray-200 dark:hover:bg-white/10 transition-all disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <Undo2 className="w-4 h-4" /> 되돌리기
+                      </button>
                     </div>
 
                     {/* Team Placement Status */}
@@ -518,6 +681,27 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                             <span className="flex items-center gap-1">
                               배치 대기 중... ({unplacedTeams.length}팀 남음)
                             </span>
+                            {game.roundTimer && (
+                              <div className="mt-1 flex items-center gap-2 font-normal">
+                                <div className="flex-1">
+                                  <RoundCountdown
+                                    timer={game.roundTimer}
+                                    limitSeconds={game.placementTimeLimit || 0}
+                                    onExpire={getTimeoutPolicy(game) !== 'WAIT' ? onResolveTimeout : undefined}
+                                  />
+                                </div>
+                                {!isPaused && <button
+                                  onClick={game.roundTimer.paused ? onResumeTimer : onPauseTimer}
+                                  className="p-1.5 rounded border border-amber-300 dark:border-amber-500/40 hover:bg-amber-100 dark:hover:bg-amber-500/20"
+                                  title={game.roundTimer.paused ? '타이머 재개' : '타이머 일시정지'}
+                                >
+                                  {game.roundTimer.paused ? <Play className="w-3 h-3" /> : <Pause className="w-3 h-3" />}
+                                </button>}
+                              </div>
+                            )}
+                            {game.roundTimer && (
+                              <span className="text-[10px] font-normal opacity-80">시간 초과 시: {getTimeoutPolicyLabel(getTimeoutPolicy(game))}</span>
+                            )}
                             {showTimeoutAlert && unplacedTeams.length > 0 && (
                               <span className="text-red-500 dark:text-red-400 text-[10px] flex items-center gap-1">
                                 <AlertTriangle className="w-3 h-3" />
@@ -541,8 +725,8 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                           return (
                             <button
                               key={label}
-                              onClick={() => !isRevealed && !game.waitingForPlacements && onSelectRandomCell(label, number)}
-                              disabled={isRevealed || game.waitingForPlacements}
+                              onClick={() => !isRevealed && !game.waitingForPlacements && !isPaused && onSelectRandomCell(label)}
+                              disabled={isRevealed || game.waitingForPlacements || isPaused}
                               className={`
                                 aspect-square rounded-lg font-bold transition-all duration-300 transform
                                 ${isRevealed
@@ -553,7 +737,7 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                                     ? 'bg-purple-600 text-white border-2 border-purple-300 shadow-lg shadow-purple-500/50 scale-105'
                                     : 'bg-gradient-to-br from-yellow-200 via-amber-100 to-yellow-300 hover:from-yellow-300 hover:via-amber-200 hover:to-yellow-400 text-gray-900 cursor-pointer hover:scale-105 active:scale-95 border-2 border-yellow-400/80 shadow-lg shadow-yellow-300/50'
                                 }
-                                ${game.waitingForPlacements && !isRevealed ? 'opacity-50 cursor-not-allowed' : ''}
+                                ${(game.waitingForPlacements || isPaused) && !isRevealed ? 'opacity-50 cursor-not-allowed' : ''}
                               `}
                             >
                               {isRevealed ? (
@@ -575,10 +759,10 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                     <div className="mt-2 pt-2 border-t border-gray-200 dark:border-white/10 shrink-0">
                       <button
                         onClick={onSubmitRandomNumber}
-                        disabled={game.waitingForPlacements || !game.pendingRandomNumber}
+                        disabled={isPaused || game.waitingForPlacements || !game.pendingRandomNumber}
                         className={`
                           w-full py-2.5 rounded-lg font-bold text-base shadow-lg transition-all flex items-center justify-center gap-2
-                          ${game.waitingForPlacements || !game.pendingRandomNumber
+                          ${isPaused || game.waitingForPlacements || !game.pendingRandomNumber
                             ? 'bg-gray-200 text-gray-400 dark:bg-gray-800 dark:text-gray-500 cursor-not-allowed'
                             : 'bg-gradient-to-r from-pink-500 to-purple-600 hover:from-pink-600 hover:to-purple-700 text-white hover:scale-[1.02] hover:shadow-purple-500/30'}
                         `}
@@ -632,7 +816,7 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
              <div className="flex-1 overflow-y-auto custom-scrollbar">
                <div className={`grid gap-2 pb-2 ${useThreeColumns ? 'grid-cols-1 md:grid-cols-3' : 'grid-cols-1 md:grid-cols-2'}`}>
                  {displayedTeams.map(team => {
-                   const scoringGroups = getScoringGroups(team.board);
+                   const scoringGroups = team.analysis.scoringGroups;
 
                    return (
                    <div key={team.teamNumber} className={`relative p-1.5 rounded-lg border transition-all ${team.hasPlacedCurrentNumber && game.waitingForPlacements ? 'bg-green-50 border-green-200 dark:bg-ai-success/5 dark:border-ai-success/30' : 'bg-gray-100 dark:bg-black/30 border-gray-200 dark:border-white/10'}`}>
@@ -644,13 +828,16 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                         <Eye className="w-3 h-3" />
                      </button>
 
-                     <div className={`w-full grid grid-cols-8 grid-rows-6 gap-0.5 relative ${useThreeColumns ? 'aspect-[8/5.5]' : 'aspect-[8/4.5]'}`}>
+                     <div
+                       className="w-full grid gap-0.5 relative"
+                       style={{ ...getBoardGridStyle(boardLayout), aspectRatio: `${boardLayout.cols} / ${boardLayout.rows - (useThreeColumns ? 0.5 : 1.5)}` }}
+                     >
 
                         {/* Center Info */}
-                        <div className="col-start-1 col-end-8 row-start-2 row-end-6 flex flex-col items-center justify-center p-1 z-0">
+                        <div style={getBoardCenterStyle(boardLayout)} className="flex flex-col items-center justify-center p-1 z-0">
                            <div className="text-center w-full">
                               <div className="flex items-center justify-center gap-1.5 mb-0.5">
-                                <span className={`font-display font-bold text-slate-800 dark:text-white ${useThreeColumns ? 'text-xl' : 'text-2xl'}`}>{team.teamNumber}조</span>
+                                <span className={`font-display font-bold text-slate-800 dark:text-white ${useThreeColumns ? 'text-xl' : 'text-2xl'}`}>{team.teamNumber}조{team.isAI && ' 🤖'}</span>
                                 <div className="px-1.5 py-0.5 rounded bg-gray-200 dark:bg-white/10 text-[10px] text-gray-600 dark:text-ai-dim">{team.players.length}명</div>
                               </div>
 
@@ -661,11 +848,16 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                                   : `${useThreeColumns ? 'text-3xl' : 'text-4xl'} text-purple-600 dark:text-ai-secondary`}`}>
                                   {team.score}<span className="text-sm ml-0.5">점</span>
                                 </span>
+                                {optimum !== null && (
+                                  <span className="text-[10px] font-mono text-green-600 dark:text-ai-success">최적 대비 {getPercentOfOptimum(team.score, optimum)}%{percentBound}</span>
+                                )}
                               </div>
 
                               <div className="flex flex-wrap justify-center gap-0.5 max-h-[24px] overflow-hidden px-1 opacity-70 dark:opacity-50">
                                 {team.players.map(p => (
-                                  <span key={p.id} className="text-[9px] text-gray-600 dark:text-gray-400 bg-white dark:bg-white/5 px-1 rounded truncate max-w-[50px] border border-gray-100 dark:border-none">{p.name}</span>
+                                  <span key={p.id} className={`text-[9px] text-gray-600 dark:text-gray-400 bg-white dark:bg-white/5 px-1 rounded truncate max-w-[50px] border border-gray-100 dark:border-none ${p.connected === false ? 'line-through' : ''}`}>
+                                    {!team.isAI && p.id === getTeamCaptainId(team) && '👑'}{p.name}
+                                  </span>
                                 ))}
                               </div>
 
@@ -678,8 +870,8 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
                         </div>
 
                         {/* Cells */}
-                        {restoreBoardArray(team.board).map((cell, cIdx) => {
-                           const style = getGridStyle(cIdx);
+                        {team.board.map((cell, cIdx) => {
+                           const style = getSnakeCellStyle(cIdx, boardLayout);
                            const isFilled = cell !== null;
                            const groupID = scoringGroups.get(cIdx);
                            const isScoring = groupID !== undefined;
@@ -732,26 +924,51 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
 
             <div className="flex items-center gap-4 mb-6">
                <h2 className="text-3xl font-bold text-slate-800 dark:text-white">{viewingTeam.teamNumber}조 상세 보기</h2>
-               <span className="text-4xl font-mono text-purple-600 dark:text-ai-secondary">{viewingTeam.score}점</span>
+               <span className="text-4xl font-mono text-purple-600 dark:text-ai-secondary">{viewingAnalysis?.totalScore ?? 0}점</span>
             </div>
 
-            <div className="w-full aspect-[8/6] grid grid-cols-8 grid-rows-6 gap-2 bg-gray-100 dark:bg-slate-900/50 p-4 rounded-xl border border-gray-200 dark:border-white/10">
-                <div className="col-start-1 col-end-8 row-start-2 row-end-6 flex flex-col items-center justify-center p-4 z-0">
+            <div
+              style={{ ...getBoardGridStyle(boardLayout), aspectRatio: `${boardLayout.cols} / ${boardLayout.rows}` }}
+              className="w-full grid gap-2 bg-gray-100 dark:bg-slate-900/50 p-4 rounded-xl border border-gray-200 dark:border-white/10">
+                <div style={getBoardCenterStyle(boardLayout)} className="flex flex-col items-center justify-center p-4 z-0">
                     <div className="text-center">
                       <p className="text-gray-500 dark:text-ai-dim mb-2">팀원 명단</p>
                       <div className="flex flex-wrap justify-center gap-2">
-                        {(Array.isArray(viewingTeam.players) ? viewingTeam.players : []).map(p => (
-                          <span key={p.id} className="px-2 py-1 bg-white dark:bg-white/10 rounded text-sm text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-transparent">{p.name}</span>
+                        {(Array.isArray(viewingRosterTeam?.players) ? viewingRosterTeam.players : []).map(p => (
+                          <div key={p.id} className={`flex items-center gap-1 px-2 py-1 bg-white dark:bg-white/10 rounded text-sm text-gray-700 dark:text-gray-300 border border-gray-200 dark:border-transparent ${p.connected === false ? 'opacity-50' : ''}`}>
+                            {p.id === viewingCaptainId && <Crown className="w-3.5 h-3.5 text-yellow-500" />}
+                            {p.id === viewingViceCaptainId && <Shield className="w-3.5 h-3.5 text-cyan-500" />}
+                            <span>{p.name}{p.connected === false && ' (오프라인)'}</span>
+                            {!viewingRosterTeam?.isAI && viewingTeamIndex !== -1 && (
+                              <>
+                                <button
+                                  onClick={() => onAssignTeamRole(viewingTeamIndex, 'CAPTAIN', p.id)}
+                                  disabled={p.id === viewingCaptainId}
+                                  title="팀장 지정"
+                                  className="ml-1 p-0.5 rounded text-gray-400 hover:text-yellow-500 disabled:opacity-30 disabled:hover:text-gray-400"
+                                >
+                                  <Crown className="w-3.5 h-3.5" />
+                                </button>
+                                <button
+                                  onClick={() => onAssignTeamRole(viewingTeamIndex, 'VICE_CAPTAIN', p.id === viewingViceCaptainId ? null : p.id)}
+                                  disabled={p.id === viewingCaptainId}
+                                  title={p.id === viewingViceCaptainId ? '부팀장 해제' : '부팀장 지정'}
+                                  className="p-0.5 rounded text-gray-400 hover:text-cyan-500 disabled:opacity-30 disabled:hover:text-gray-400"
+                                >
+                                  <Shield className="w-3.5 h-3.5" />
+                                </button>
+                              </>
+                            )}
+                          </div>
                         ))}
                       </div>
                     </div>
                 </div>
 
-                {restoreBoardArray(viewingTeam.board).map((cell, idx) => {
-                   const style = getGridStyle(idx);
+                {viewingBoard.map((cell, idx) => {
+                   const style = getSnakeCellStyle(idx, boardLayout);
                    const isFilled = cell !== null;
-                   const viewingBoard = restoreBoardArray(viewingTeam.board);
-                   const groupID = getScoringGroups(viewingBoard).get(idx);
+                   const groupID = viewingAnalysis?.scoringGroups.get(idx);
                    const isScoring = groupID !== undefined;
                    const colorClass = isScoring ? getGroupColorClass(groupID) : 'bg-white dark:bg-black/60 border-gray-300 dark:border-white/20 text-slate-900 dark:text-white';
 
@@ -781,6 +998,28 @@ export const HostView: React.FC<HostViewProps> = ({ game, onStartGame, onSelectR
         </div>
       )}
 
+      {/* DEBRIEF MODAL */}
+      {showDebrief && (
+        <DebriefView teams={gameTeams} onBuildDebrief={onBuildDebrief} onClose={() => setShowDebrief(false)} />
+      )}
+
+      {showChatLog && (
+        <ChatLogView teams={gameTeams} chats={teamChats} onClose={() => setShowChatLog(false)} />
+      )}
+
+      {showHistory && (
+        <GameHistoryView game={game} onClose={() => setShowHistory(false)} />
+      )}
+
+      {showTournament && tournament && (
+        <TournamentLeaderboard
+          game={game}
+          tournament={tournament}
+          onSetTournament={onSetTournament}
+          onClose={() => setShowTournament(false)}
+        />
+      )}
+
       {/* DRAMATIC NUMBER POPUP */}
       {showNumberPopup && popupNumber && (
         <div
@@ -1,9 +1,13 @@
 
-import React, { useState, useEffect, useRef } from 'react';
-import { GameState, Team, Player } from '../types';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { GameState, Team, Player, ChatMessage } from '../types';
 import { Panel, Button, Footer } from './UI';
-import { Wifi, Check, Lock, MousePointerClick } from 'lucide-react';
-import { getScoringGroups, restoreBoardArray } from '../utils';
+import { TeamChat } from './TeamChat';
+import { DeckTrackerPanel } from './DeckTrackerPanel';
+import { RoundCountdown } from './RoundCountdown';
+import { Wifi, Check, Lock, MousePointerClick, Crown, Shield, Timer } from 'lucide-react';
+import { analyzeBoard, restoreBoardArray, getScoringRules, getBoardSize, getBoardLayout, getSnakeCellStyle, getBoardGridStyle, getBoardCenterStyle, runPoints, getPercentOfOptimum, formatHindsightOptimum, getDecisionMode, getTeamCaptainId, getTeamViceCaptainId, getCaptainVoteCounts, getRoundProposals, getProposalTally, hasPlayerAid, previewPlacement, getGamePhase } from '../utils';
+import { estimateTeamPlacements } from '../ai';
 import { playScoreSound, playFanfareSound, initAudioOnInteraction } from '../sounds';
 
 interface PlayerViewProps {
@@ -11,25 +15,77 @@ interface PlayerViewProps {
   team: Team;
   me: Player;
   onPlaceNumber: (idx: number) => void;
+  onProposeCell: (idx: number | null) => void; // null withdraws my proposal
+  onConfirmPlacement: (idx: number) => void; // CAPTAIN mode only
+  onVoteCaptain: (candidateId: string) => void; // lobby election
+  chatMessages: ChatMessage[]; // my team's channel only
+  onSendChat: (text: string) => void;
 }
 
-export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me, onPlaceNumber }) => {
+export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me, onPlaceNumber, onProposeCell, onConfirmPlacement, onVoteCaptain, chatMessages, onSendChat }) => {
   const [pendingIndex, setPendingIndex] = useState<number | null>(null);
   const prevScoreRef = useRef<number>(0);
   const prevGameEndedRef = useRef<boolean>(false);
   const audioInitializedRef = useRef<boolean>(false);
 
   // Safety: Ensure myTeam has all required properties (Firebase may return objects instead of arrays)
+  // The score shown is derived from the same board analysis that drives the run highlighting
+  const scoringRules = getScoringRules(game);
+  const boardSize = getBoardSize(game);
+  const boardLayout = getBoardLayout(boardSize);
+  const myBoard = restoreBoardArray(myTeam?.board, boardSize);
+  const myAnalysis = analyzeBoard(myBoard, scoringRules);
   const safeMyTeam = {
     ...myTeam,
     players: Array.isArray(myTeam?.players) ? myTeam.players : [],
-    board: restoreBoardArray(myTeam?.board),
+    board: myBoard,
     teamNumber: myTeam?.teamNumber ?? 1,
-    score: myTeam?.score ?? 0,
+    score: myAnalysis.totalScore,
     hasPlacedCurrentNumber: myTeam?.hasPlacedCurrentNumber ?? false,
     placedBy: myTeam?.placedBy ?? null
   };
 
+  // Team decision: outside FIRST_CLICK a tap proposes a cell instead of selecting it
+  const decisionMode = getDecisionMode(game);
+  const isConsensusMode = decisionMode !== 'FIRST_CLICK';
+  const captainId = getTeamCaptainId(safeMyTeam);
+  const viceCaptainId = getTeamViceCaptainId(safeMyTeam);
+  const captainVotes = getCaptainVoteCounts(safeMyTeam);
+  const myVote = (safeMyTeam.captainVotes || {})[me.id];
+  const captain = safeMyTeam.players.find(p => p.id === captainId);
+  const canConfirm = !isConsensusMode || (decisionMode === 'CAPTAIN' && captainId === me.id);
+  const proposalTally = getProposalTally(safeMyTeam, game.currentRound);
+  const myProposal = getRoundProposals(safeMyTeam, game.currentRound).find(p => p.playerId === me.id)?.position ?? null;
+  const selectedIndex = isConsensusMode ? myProposal : pendingIndex;
+  const phase = getGamePhase(game);
+  const isPaused = phase === 'PAUSED';
+  const memberCount = safeMyTeam.players.length;
+  const decisionHint = {
+    FIRST_CLICK: '팀원들과 상의하여 위치를 선택하세요!',
+    MAJORITY: `칸을 제안하세요! ${Math.floor(memberCount / 2) + 1}명 이상이 같은 칸을 고르면 배치됩니다`,
+    UNANIMOUS: `칸을 제안하세요! 팀원 ${memberCount}명 모두 같은 칸을 고르면 배치됩니다`,
+    CAPTAIN: `칸을 제안하세요! 팀장(${captain?.name ?? '-'})이 배치를 확정합니다`
+  }[decisionMode];
+
+  // Placement preview (a per-game player aid): score impact of the selected
+  // cell plus the AI's best / worst cells for the current number
+  const showPreview = hasPlayerAid(game, 'PLACEMENT_PREVIEW');
+  const canPlaceNow = game.currentNumber !== null && !safeMyTeam.hasPlacedCurrentNumber && !game.gameEnded && !isPaused;
+  const myTeamIndex = (Array.isArray(game.teams) ? game.teams : []).findIndex(t => Number(t.teamNumber) === Number(safeMyTeam.teamNumber));
+  const cellEstimates = useMemo(
+    () => (showPreview && canPlaceNow && myTeamIndex !== -1 ? estimateTeamPlacements(game, myTeamIndex) : []),
+    // Recompute once per number, not on every sync of other teams' boards
+    [showPreview, canPlaceNow, myTeamIndex, game.currentRound, game.currentNumber, myBoard.join(',')]
+  );
+  const bestCell = cellEstimates.length > 1 ? cellEstimates.reduce((a, b) => (b.expected > a.expected ? b : a)) : null;
+  const worstCell = cellEstimates.length > 1 ? cellEstimates.reduce((a, b) => (b.expected < a.expected ? b : a)) : null;
+  const hasCellHints = !!bestCell && !!worstCell && bestCell.expected > worstCell.expected;
+
+  const preview = showPreview && canPlaceNow && selectedIndex !== null && myBoard[selectedIndex] === null
+    ? previewPlacement(myBoard, game.currentNumber as number | string, selectedIndex, scoringRules)
+    : null;
+  const selectedEstimate = cellEstimates.find(c => c.index === selectedIndex);
+
   // Initialize audio on first user interaction (required for mobile)
   useEffect(() => {
     if (!audioInitializedRef.current) {
@@ -76,7 +132,7 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
   const safeTeams = gameTeams.map((t, idx) => ({
     ...t,
     players: Array.isArray(t.players) ? t.players : [],
-    board: restoreBoardArray(t.board),
+    board: restoreBoardArray(t.board, boardSize),
     hasPlacedCurrentNumber: t.hasPlacedCurrentNumber ?? false,
     // Ensure teamNumber is a number (Firebase may convert to string)
     teamNumber: Number(t.teamNumber) || (idx + 1)
@@ -90,21 +146,6 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
     return a.teamNumber - b.teamNumber;
   });
 
-  const getGridStyle = (index: number) => {
-    let colStart, rowStart;
-    if (index < 8) {
-      colStart = index + 1;
-      rowStart = 1;
-    } else if (index < 12) {
-      colStart = 8;
-      rowStart = (index - 8) + 2;
-    } else {
-      colStart = 8 - (index - 12);
-      rowStart = 6;
-    }
-    return { gridColumnStart: colStart, gridRowStart: rowStart };
-  };
-
   const getGroupColorClass = (groupId: number) => {
     const colors = [
       'bg-yellow-500/20 border-yellow-500/40',
@@ -115,18 +156,13 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
     return colors[groupId % colors.length];
   };
 
-  const SCORE_TABLE_DATA = [
-    { len: 1, pts: 0 }, { len: 11, pts: 30 },
-    { len: 2, pts: 1 }, { len: 12, pts: 35 },
-    { len: 3, pts: 3 }, { len: 13, pts: 40 },
-    { len: 4, pts: 5 }, { len: 14, pts: 50 },
-    { len: 5, pts: 7 }, { len: 15, pts: 60 },
-    { len: 6, pts: 9 }, { len: 16, pts: 70 },
-    { len: 7, pts: 11 }, { len: 17, pts: 85 },
-    { len: 8, pts: 15 }, { len: 18, pts: 100 },
-    { len: 9, pts: 20 }, { len: 19, pts: 150 },
-    { len: 10, pts: 25 }, { len: 20, pts: 300 },
-  ];
+  // This game's score table, interleaved for the two-column grid
+  // (left column: 1..half, right column: the rest)
+  const scoreRows = Math.ceil(boardSize / 2);
+  const SCORE_TABLE_DATA = Array.from({ length: scoreRows * 2 }, (_, i) => {
+    const len = Math.floor(i / 2) + 1 + (i % 2) * scoreRows;
+    return { len, pts: runPoints(len, scoringRules.scoreTable) };
+  }).filter(d => d.len <= boardSize);
 
   return (
     <div className="min-h-screen pb-24 flex flex-col transition-colors duration-300">
@@ -157,6 +193,34 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
              </div>
              <h3 className="text-lg font-display font-bold text-slate-900 dark:text-white">게임 대기 중</h3>
              <p className="text-gray-500 dark:text-ai-dim text-sm">호스트가 게임을 시작할 때까지 잠시만 기다려주세요.</p>
+
+             {/* Lobby captain election */}
+             <div className="pt-4 mt-2 border-t border-gray-200 dark:border-white/10 text-left">
+               <p className="text-sm font-bold text-slate-900 dark:text-white mb-1 flex items-center gap-1">
+                 <Crown className="w-4 h-4 text-yellow-500" /> 팀장 선출
+               </p>
+               <p className="text-[11px] text-gray-500 dark:text-ai-dim mb-3">최다 득표자가 팀장, 차점자가 부팀장이 됩니다. 다시 누르면 표를 바꿀 수 있습니다.</p>
+               <div className="grid grid-cols-2 gap-2">
+                 {safeMyTeam.players.map(p => (
+                   <button
+                     key={p.id}
+                     onClick={() => onVoteCaptain(p.id)}
+                     className={`flex items-center justify-between px-3 py-2 rounded-lg border text-sm transition-all ${
+                       myVote === p.id
+                         ? 'bg-cyan-50 border-cyan-500 text-cyan-700 dark:bg-ai-primary/10 dark:border-ai-primary dark:text-ai-primary'
+                         : 'bg-white border-gray-200 text-slate-700 hover:border-cyan-300 dark:bg-white/5 dark:border-white/10 dark:text-gray-200'
+                     }`}
+                   >
+                     <span className="flex items-center gap-1 truncate">
+                       {p.id === captainId && <Crown className="w-3 h-3 text-yellow-500 shrink-0" />}
+                       {p.id === viceCaptainId && <Shield className="w-3 h-3 text-cyan-500 shrink-0" />}
+                       <span className="truncate">{p.name}{p.id === me.id && ' (나)'}</span>
+                     </span>
+                     <span className="font-mono text-xs text-gray-500 dark:text-ai-dim shrink-0">{captainVotes.get(p.id) || 0}표</span>
+                   </button>
+                 ))}
+               </div>
+             </div>
           </Panel>
         ) : (
            <Panel className="relative overflow-hidden border-cyan-200 dark:border-ai-primary/30 text-center bg-gradient-to-b from-cyan-50 to-transparent dark:from-ai-primary/5 dark:to-transparent">
@@ -168,13 +232,57 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
               )}
               
               <div className="mt-4 pt-3 border-t border-gray-200 dark:border-white/10">
-                {safeMyTeam.hasPlacedCurrentNumber ? (
+                {isPaused ? (
+                  <div className="flex items-center justify-center gap-2 text-amber-700 dark:text-amber-400 bg-amber-100 dark:bg-amber-500/10 py-2 rounded-lg">
+                    <Lock className="w-5 h-5" />
+                    <span className="font-bold text-sm">잠시 쉬어갑니다 - 호스트가 게임을 재개할 때까지 기다려주세요</span>
+                  </div>
+                ) : safeMyTeam.hasPlacedCurrentNumber && safeMyTeam.placedBy?.startsWith('시간 초과') ? (
+                  <div className="flex items-center justify-center gap-2 text-orange-700 dark:text-orange-400 bg-orange-100 dark:bg-orange-500/10 py-2 rounded-lg">
+                    <Timer className="w-5 h-5" />
+                    <span className="font-bold text-sm">{safeMyTeam.placedBy} - 다음 숫자를 기다리세요</span>
+                  </div>
+                ) : safeMyTeam.hasPlacedCurrentNumber ? (
                   <div className="flex items-center justify-center gap-2 text-green-700 dark:text-ai-success bg-green-100 dark:bg-ai-success/10 py-2 rounded-lg">
                     <Check className="w-5 h-5" />
                     <span className="font-bold text-sm">배치 완료! 다음 숫자를 기다리세요</span>
                   </div>
                 ) : game.currentNumber ? (
-                  <p className="text-red-500 dark:text-ai-accent font-bold animate-pulse text-sm">팀원들과 상의하여 위치를 선택하세요!</p>
+                  <>
+                    {game.roundTimer && (
+                      <div className="mb-3 text-left">
+                        <RoundCountdown timer={game.roundTimer} limitSeconds={game.placementTimeLimit || 0} />
+                      </div>
+                    )}
+                    <p className="text-red-500 dark:text-ai-accent font-bold animate-pulse text-sm">{decisionHint}</p>
+                    {preview && (
+                      <div className="mt-3 p-3 rounded-lg bg-cyan-50 dark:bg-ai-primary/10 border border-cyan-200 dark:border-ai-primary/30 text-left text-xs space-y-1">
+                        <p className="text-sm text-slate-800 dark:text-white">
+                          {preview.position + 1}번 칸에 놓으면 <span className="font-bold">{preview.score}점</span>{' '}
+                          <span className={preview.delta > 0 ? 'text-green-600 dark:text-ai-success font-bold' : 'text-gray-500'}>
+                            ({preview.delta >= 0 ? '+' : ''}{preview.delta})
+                          </span>
+                        </p>
+                        {preview.run.length >= 2 && (
+                          <p className="text-green-700 dark:text-ai-success">
+                            🔗 {preview.run.start + 1}~{preview.run.end + 1}번 {preview.run.length}칸 연속
+                            {preview.joined.length > 1 && ` (${preview.joined.length}구간 연결)`}
+                          </p>
+                        )}
+                        {preview.blockedSides.length > 0 && (
+                          <p className="text-orange-600 dark:text-orange-400">
+                            ✂️ {preview.blockedSides.map(side => (side === 'LEFT' ? `${preview.position}번` : `${preview.position + 2}번`)).join(', ')} 칸과 이어지지 않음
+                          </p>
+                        )}
+                        {preview.broken.map(run => (
+                          <p key={run.start} className="text-red-500">⚠️ {run.start + 1}~{run.end + 1}번 연속이 끊어짐</p>
+                        ))}
+                        {selectedEstimate && (
+                          <p className="text-gray-500 dark:text-ai-dim">AI 예상 최종 점수 약 {Math.round(selectedEstimate.expected * 10) / 10}점</p>
+                        )}
+                      </div>
+                    )}
+                  </>
                 ) : (
                   <p className="text-gray-500 dark:text-ai-dim text-sm">다음 숫자를 기다리는 중...</p>
                 )}
@@ -182,34 +290,41 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
             </Panel>
         )}
 
+        {game.gameStarted && !game.gameEnded && hasPlayerAid(game, 'DECK_TRACKER') && (
+          <DeckTrackerPanel game={game} board={myBoard} selectedIndex={selectedIndex} />
+        )}
+
         {sortedTeams.map((team) => {
           const isMyTeam = team.teamNumber === myTeamNum;
           // For my team, prefer props data (safeMyTeam) over game.teams data due to Firebase sync timing
-          const teamBoard = isMyTeam ? safeMyTeam.board : restoreBoardArray(team.board);
+          const teamBoard = isMyTeam ? safeMyTeam.board : team.board;
           const teamPlayers = isMyTeam ? safeMyTeam.players : (Array.isArray(team.players) ? team.players : []);
-          const scoringGroups = getScoringGroups(teamBoard);
+          const analysis = isMyTeam ? myAnalysis : analyzeBoard(teamBoard, scoringRules);
+          const scoringGroups = analysis.scoringGroups;
 
           return (
             <div key={team.teamNumber} className={`relative transition-all duration-500 ${isMyTeam ? 'opacity-100 scale-100' : 'opacity-80 scale-95 grayscale-[0.3]'}`}>
               <div className="flex items-center justify-between mb-2 px-1">
                 <div className="flex items-center gap-2">
                   <div className={`px-2 py-1 rounded text-xs font-bold ${isMyTeam ? 'bg-cyan-600 text-white dark:bg-ai-primary dark:text-black' : 'bg-gray-200 text-gray-600 dark:bg-gray-700 dark:text-gray-300'}`}>
-                    {team.teamNumber}조
+                    {team.teamNumber}조{team.isAI && ' 🤖'}
                   </div>
                   {!isMyTeam && <span className="text-xs text-gray-500">관전 모드</span>}
                 </div>
                 <div className="text-xs font-mono text-gray-400">
-                  {teamPlayers.length}명 참여 • <span className={`${isMyTeam ? 'text-purple-600 dark:text-ai-secondary' : 'text-gray-500'} font-bold`}>{team.score}점</span>
+                  {teamPlayers.length}명 참여 • <span className={`${isMyTeam ? 'text-purple-600 dark:text-ai-secondary' : 'text-gray-500'} font-bold`}>{analysis.totalScore}점</span>
                 </div>
               </div>
 
-              <div className={`
-                w-full aspect-[8/6] relative rounded-xl border p-2 shadow-sm
+              <div
+                style={{ aspectRatio: `${boardLayout.cols} / ${boardLayout.rows}` }}
+                className={`
+                w-full relative rounded-xl border p-2 shadow-sm
                 ${isMyTeam ? 'bg-white dark:bg-slate-900 border-cyan-200 dark:border-ai-primary/20 shadow-lg dark:shadow-[0_0_30px_rgba(0,0,0,0.5)]' : 'bg-gray-100 dark:bg-black/40 border-gray-200 dark:border-white/5'}
               `}>
-                 <div className="grid grid-cols-8 grid-rows-6 gap-1 h-full">
+                 <div className="grid gap-1 h-full" style={getBoardGridStyle(boardLayout)}>
                    
-                   <div className="col-start-1 col-end-8 row-start-2 row-end-6 flex flex-row items-stretch justify-between p-2 z-0 overflow-hidden gap-2">
+                   <div style={getBoardCenterStyle(boardLayout)} className="flex flex-row items-stretch justify-between p-2 z-0 overflow-hidden gap-2">
                       
                       {/* Score Table: Increased vertical spacing/height, larger font, same width */}
                       <div className="w-[45%] flex flex-col justify-center overflow-y-auto custom-scrollbar border-r border-gray-200 dark:border-white/5 pr-2">
@@ -230,9 +345,14 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
                          {game.gameEnded && (
                             <div className="my-2 animate-pulse-slow">
                               <span className="text-6xl font-black text-cyan-600 dark:text-ai-primary dark:drop-shadow-[0_0_20px_rgba(0,242,255,0.6)] leading-none">
-                                {team.score}
+                                {analysis.totalScore}
                               </span>
                               <span className="text-lg text-gray-500 dark:text-ai-dim block">FINAL SCORE</span>
+                              {typeof game.hindsightOptimum === 'number' && (
+                                <span className="text-xs font-mono text-green-600 dark:text-ai-success block">
+                                  최적 {formatHindsightOptimum(game)} 대비 {getPercentOfOptimum(analysis.totalScore, game.hindsightOptimum)}%{game.hindsightOptimumExact === false ? ' 이하' : ''}
+                                </span>
+                              )}
                             </div>
                          )}
 
@@ -244,7 +364,11 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
                          )}
                          <div className="mt-2 flex flex-wrap justify-center gap-1.5 opacity-60 max-h-[80px] overflow-y-auto custom-scrollbar w-full">
                             {teamPlayers.map(p => (
-                               <span key={p.id} className="text-[10px] bg-gray-100 dark:bg-white/10 px-1.5 py-0.5 rounded text-gray-600 dark:text-gray-300 truncate max-w-[80px]">{p.name}</span>
+                               <span key={p.id} className={`text-[10px] bg-gray-100 dark:bg-white/10 px-1.5 py-0.5 rounded text-gray-600 dark:text-gray-300 truncate max-w-[80px] flex items-center gap-0.5 ${p.connected === false ? 'line-through opacity-50' : ''}`}>
+                                 {!team.isAI && p.id === getTeamCaptainId(team) && <Crown className="w-2.5 h-2.5 text-yellow-500 shrink-0" />}
+                                 {p.id === getTeamViceCaptainId(team) && <Shield className="w-2.5 h-2.5 text-cyan-500 shrink-0" />}
+                                 {p.name}
+                               </span>
                             ))}
                          </div>
                       </div>
@@ -258,9 +382,17 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
                      // For my team, use safeMyTeam.hasPlacedCurrentNumber (from props) which is more reliable
                      // than team.hasPlacedCurrentNumber (from game.teams) due to Firebase sync timing
                      const hasPlacedNumber = isMyTeam ? safeMyTeam.hasPlacedCurrentNumber : team.hasPlacedCurrentNumber;
-                     const canInteract = isMyTeam && !isFilled && game.currentNumber !== null && !hasPlacedNumber && !game.gameEnded;
-                     const isSelected = pendingIndex === index;
-                     const style = getGridStyle(index);
+                     const canInteract = isMyTeam && !isFilled && game.currentNumber !== null && !hasPlacedNumber && !game.gameEnded && !isPaused;
+                     const isSelected = selectedIndex === index;
+                     // Preview hints: the AI's best and worst cells for this number
+                     const cellHint = isMyTeam && canInteract && hasCellHints
+                       ? (index === bestCell!.index ? 'BEST' : index === worstCell!.index ? 'WORST' : null)
+                       : null;
+                     // Teammates' proposals for this cell (only shown on my own board)
+                     const cellProposal = isMyTeam && isConsensusMode && canInteract
+                       ? proposalTally.find(t => t.position === index)
+                       : undefined;
+                     const style = getSnakeCellStyle(index, boardLayout);
 
                      // Sequence Coloring Logic
                      const colorClass = isScoring ? getGroupColorClass(groupID) : 'bg-white dark:bg-black/60 border-gray-300 dark:border-white/20 text-slate-900 dark:text-white shadow-sm dark:shadow-none';
@@ -271,7 +403,12 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
                          style={style}
                          disabled={!canInteract}
                          onClick={() => {
-                           if (canInteract) {
+                           if (!canInteract) return;
+                           if (isConsensusMode) {
+                             // Tapping my own proposal again withdraws it
+                             onProposeCell(myProposal === index ? null : index);
+                             if (canConfirm) setPendingIndex(myProposal === index ? null : index);
+                           } else {
                              setPendingIndex(index);
                            }
                          }}
@@ -286,6 +423,7 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
                                : 'bg-gray-100 dark:bg-[#0a0a0f] border-gray-200 dark:border-white/10 opacity-50' 
                            }
                            ${isFilled ? 'border-2' : 'border'}
+                           ${cellHint === 'BEST' ? 'ring-2 ring-green-500 dark:ring-ai-success' : cellHint === 'WORST' ? 'ring-2 ring-red-400' : ''}
                          `}
                        >
                          {!isFilled && !isSelected && (
@@ -295,7 +433,22 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
                          )}
                          
                          {!isFilled && isSelected && (
-                            <span className="text-cyan-600 dark:text-ai-primary font-bold text-xs animate-pulse">선택</span>
+                            <span className="text-cyan-600 dark:text-ai-primary font-bold text-xs animate-pulse">{isConsensusMode ? '내 제안' : '선택'}</span>
+                         )}
+
+                         {cellHint && (
+                           <span className={`absolute bottom-0 inset-x-0 text-[8px] font-bold leading-3 ${cellHint === 'BEST' ? 'text-green-600 dark:text-ai-success' : 'text-red-500'}`}>
+                             {cellHint === 'BEST' ? '추천' : '비추천'}
+                           </span>
+                         )}
+
+                         {cellProposal && (
+                           <span
+                             title={cellProposal.names.join(', ')}
+                             className="absolute top-0.5 right-0.5 min-w-[1.1rem] px-1 rounded-full bg-pink-500 dark:bg-ai-accent text-white dark:text-black text-[9px] font-bold leading-4"
+                           >
+                             {cellProposal.votes}표
+                           </span>
                          )}
 
                          {isFilled && (
@@ -312,21 +465,34 @@ export const PlayerView: React.FC<PlayerViewProps> = ({ game, team: myTeam, me,
         
         {game.gameEnded && (
            <div className="fixed bottom-0 left-0 w-full p-6 bg-white/90 dark:bg-black/90 backdrop-blur border-t border-purple-200 dark:border-ai-secondary/50 text-center z-50">
-             <h2 className="text-xl text-slate-900 dark:text-white font-bold mb-2">게임 종료!</h2>
+             <h2 className="text-xl text-slate-900 dark:text-white font-bold mb-2">{phase === 'ABORTED' ? '게임이 조기 종료되었습니다!' : '게임 종료!'}</h2>
              <p className="text-gray-500 dark:text-ai-dim text-sm">관리자 화면에서 최종 결과를 확인하세요.</p>
+             <p className="text-gray-400 dark:text-ai-dim text-xs mt-1">호스트가 재경기를 시작하면 이 화면에서 바로 이어집니다.</p>
            </div>
         )}
       </div>
 
       <Footer />
 
-      {pendingIndex !== null && !safeMyTeam.hasPlacedCurrentNumber && game.currentNumber !== null && (
+      <TeamChat
+        teamNumber={safeMyTeam.teamNumber}
+        messages={chatMessages}
+        me={me}
+        canSend={safeMyTeam.players.some(p => p.id === me.id)}
+        onSend={onSendChat}
+      />
+
+      {pendingIndex !== null && canConfirm && !safeMyTeam.hasPlacedCurrentNumber && game.currentNumber !== null && !isPaused && (
          <div className="fixed bottom-6 left-0 w-full px-6 z-50 animate-bounce-in">
             <Button 
                variant="primary" 
                className="w-full max-w-md mx-auto py-4 text-lg shadow-2xl border-2 border-cyan-500 dark:border-ai-primary"
                onClick={() => {
-                 onPlaceNumber(pendingIndex);
+                 if (isConsensusMode) {
+                   onConfirmPlacement(pendingIndex);
+                 } else {
+                   onPlaceNumber(pendingIndex);
+                 }
                  setPendingIndex(null);
                }}
             >
@@ -0,0 +1,63 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { RoundTimer } from '../types';
+import { Timer } from 'lucide-react';
+import { getTimerRemainingMs } from '../utils';
+
+interface RoundCountdownProps {
+  timer: RoundTimer;
+  limitSeconds: number;
+  onExpire?: () => void; // host only: applies the timeout policy
+}
+
+const formatClock = (ms: number) => {
+  const total = Math.ceil(ms / 1000);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+// Placement countdown for the current round, ticking once a second
+export const RoundCountdown: React.FC<RoundCountdownProps> = ({ timer, limitSeconds, onExpire }) => {
+  const [now, setNow] = useState(Date.now());
+  const expiredFor = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (timer.paused) return;
+    setNow(Date.now());
+    const intervalId = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(intervalId);
+  }, [timer.paused, timer.startedAt]);
+
+  const remainingMs = getTimerRemainingMs(timer, now);
+  const expired = !timer.paused && remainingMs <= 0;
+
+  // Fire once per running timer, not on every tick after zero
+  useEffect(() => {
+    if (!expired || !onExpire || expiredFor.current === timer.startedAt) return;
+    expiredFor.current = timer.startedAt;
+    onExpire();
+  }, [expired, timer.startedAt, onExpire]);
+
+  const ratio = limitSeconds > 0 ? Math.min(remainingMs / (limitSeconds * 1000), 1) : 0;
+  const urgent = !timer.paused && remainingMs <= 10000;
+
+  return (
+    <div className="space-y-1">
+      <div className={`flex items-center justify-between text-xs font-bold ${
+        urgent ? 'text-red-500 dark:text-red-400' : 'text-slate-700 dark:text-gray-200'
+      }`}>
+        <span className="flex items-center gap-1">
+          <Timer className={`w-3.5 h-3.5 ${urgent && !expired ? 'animate-pulse' : ''}`} />
+          {timer.paused ? '일시정지' : expired ? '시간 초과' : '남은 시간'}
+        </span>
+        <span className="font-mono text-sm">{formatClock(remainingMs)}</span>
+      </div>
+      <div className="h-1.5 rounded-full bg-gray-200 dark:bg-white/10 overflow-hidden">
+        <div
+          className={`h-full transition-all duration-1000 ease-linear ${
+            timer.paused ? 'bg-gray-400' : urgent ? 'bg-red-500' : 'bg-cyan-500 dark:bg-ai-primary'
+          }`}
+          style={{ width: `${ratio * 100}%` }}
+        />
+      </div>
+    </div>
+  );
+};
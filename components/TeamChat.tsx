@@ -0,0 +1,108 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { ChatMessage, Player } from '../types';
+import { MessageCircle, Send, X } from 'lucide-react';
+import { MAX_CHAT_MESSAGE_LENGTH } from '../utils';
+
+interface TeamChatProps {
+  teamNumber: number;
+  messages: ChatMessage[];
+  me: Player;
+  canSend: boolean; // false for spectators previewing the player screen
+  onSend: (text: string) => void;
+}
+
+// Floating chat for one team's channel (private only on the relay backend)
+export const TeamChat: React.FC<TeamChatProps> = ({ teamNumber, messages, me, canSend, onSend }) => {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState('');
+  const [seenCount, setSeenCount] = useState(messages.length);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const unread = open ? 0 : Math.max(messages.length - seenCount, 0);
+
+  // Keep the newest message in view and count everything shown as read
+  useEffect(() => {
+    if (!open) return;
+    setSeenCount(messages.length);
+    if (listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [open, messages.length]);
+
+  const handleSend = () => {
+    const text = draft.trim();
+    if (!text || !canSend) return;
+    onSend(text);
+    setDraft('');
+  };
+
+  if (!open) {
+    return (
+      <button
+        onClick={() => setOpen(true)}
+        className="fixed bottom-24 right-4 z-40 w-14 h-14 rounded-full bg-cyan-600 dark:bg-ai-primary text-white dark:text-black shadow-xl flex items-center justify-center"
+      >
+        <MessageCircle className="w-6 h-6" />
+        {unread > 0 && (
+          <span className="absolute -top-1 -right-1 min-w-[1.25rem] h-5 px-1 rounded-full bg-pink-500 dark:bg-ai-accent text-white text-[10px] font-bold flex items-center justify-center">
+            {unread > 99 ? '99+' : unread}
+          </span>
+        )}
+      </button>
+    );
+  }
+
+  return (
+    <div className="fixed bottom-24 right-4 z-40 w-[min(22rem,calc(100vw-2rem))] h-96 flex flex-col bg-white/95 dark:bg-[#0a0a0f]/95 backdrop-blur border border-cyan-200 dark:border-ai-primary/30 rounded-2xl shadow-2xl animate-fade-in">
+      <div className="flex items-center justify-between px-4 py-2 border-b border-gray-200 dark:border-white/10">
+        <span className="font-bold text-sm text-slate-900 dark:text-white flex items-center gap-1.5">
+          <MessageCircle className="w-4 h-4 text-cyan-600 dark:text-ai-primary" /> {teamNumber}조 팀 채팅
+        </span>
+        <button onClick={() => setOpen(false)} className="text-gray-400 hover:text-red-500 dark:hover:text-white">
+          <X className="w-5 h-5" />
+        </button>
+      </div>
+
+      <div ref={listRef} className="flex-1 overflow-y-auto custom-scrollbar px-3 py-2 space-y-2">
+        {messages.length === 0 ? (
+          <p className="text-center text-xs text-gray-400 dark:text-ai-dim mt-8">팀원과 진행자가 함께 보는 채팅입니다.</p>
+        ) : (
+          messages.map(m => {
+            const mine = m.playerId === me.id;
+            return (
+              <div key={m.id} className={`flex flex-col ${mine ? 'items-end' : 'items-start'}`}>
+                {!mine && <span className="text-[10px] text-gray-500 dark:text-ai-dim mb-0.5">{m.playerName}</span>}
+                <span className={`max-w-[85%] px-3 py-1.5 rounded-xl text-sm break-words ${
+                  mine
+                    ? 'bg-cyan-600 text-white dark:bg-ai-primary dark:text-black'
+                    : 'bg-gray-100 text-slate-800 dark:bg-white/10 dark:text-gray-100'
+                }`}>
+                  {m.text}
+                </span>
+              </div>
+            );
+          })
+        )}
+      </div>
+
+      <div className="flex items-center gap-2 p-2 border-t border-gray-200 dark:border-white/10">
+        <input
+          className="flex-1 px-3 py-2 rounded-lg text-sm bg-gray-50 dark:bg-black/40 border border-gray-200 dark:border-white/10 text-slate-800 dark:text-white outline-none focus:border-cyan-500 dark:focus:border-ai-primary"
+          value={draft}
+          maxLength={MAX_CHAT_MESSAGE_LENGTH}
+          disabled={!canSend}
+          placeholder={canSend ? '메시지 입력...' : '팀원만 보낼 수 있습니다'}
+          onChange={e => setDraft(e.target.value)}
+          onKeyDown={e => {
+            if (e.key === 'Enter' && !e.nativeEvent.isComposing) handleSend();
+          }}
+        />
+        <button
+          onClick={handleSend}
+          disabled={!canSend || !draft.trim()}
+          className="p-2 rounded-lg bg-cyan-600 dark:bg-ai-primary text-white dark:text-black disabled:opacity-40"
+        >
+          <Send className="w-4 h-4" />
+        </button>
+      </div>
+    </div>
+  );
+};
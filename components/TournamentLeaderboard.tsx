@@ -0,0 +1,105 @@
+import React from 'react';
+import { GameState, Tournament, TournamentAggregation } from '../types';
+import { X, Trophy } from 'lucide-react';
+import { TOURNAMENT_AGGREGATIONS, calculateTournamentStandings, getTournamentGames, getTieBreakerLabel, getTournamentAggregationLabel, getGameNumber } from '../utils';
+
+interface TournamentLeaderboardProps {
+  game: GameState;
+  tournament: Tournament;
+  onSetTournament: (tournament: Tournament | null) => void;
+  onClose: () => void;
+}
+
+// Cumulative tournament standings with every finished game broken out per team
+export const TournamentLeaderboard: React.FC<TournamentLeaderboardProps> = ({ game, tournament, onSetTournament, onClose }) => {
+  const games = getTournamentGames(game);
+  const standings = calculateTournamentStandings(games, tournament.aggregation);
+  const gameNumbers = games.map(g => getGameNumber(g));
+  const unit = tournament.aggregation === 'RANK_POINTS' ? 'P' : '점';
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/80 backdrop-blur-sm animate-fade-in">
+      <div className="w-full max-w-4xl max-h-[90vh] flex flex-col bg-white dark:bg-[#0a0a0f] border border-cyan-500/20 dark:border-ai-primary/20 rounded-2xl shadow-2xl p-6 relative">
+        <button
+          onClick={onClose}
+          className="absolute top-4 right-4 text-gray-500 hover:text-red-500 dark:hover:text-white"
+        >
+          <X className="w-8 h-8" />
+        </button>
+
+        <div className="flex items-center gap-3 mb-1">
+          <Trophy className="w-7 h-7 text-yellow-500" />
+          <h2 className="text-2xl font-bold text-slate-800 dark:text-white">{tournament.name} 종합 순위</h2>
+        </div>
+        <div className="flex flex-wrap items-center gap-3 mb-4 text-xs text-gray-500 dark:text-ai-dim">
+          <span>{games.length}/{tournament.totalGames}판 완료</span>
+          <label className="flex items-center gap-1.5">
+            집계
+            <select
+              className="px-2 py-1 rounded border border-gray-200 dark:border-white/10 bg-gray-50 dark:bg-black/50 text-slate-800 dark:text-white"
+              value={tournament.aggregation}
+              onChange={e => onSetTournament({ ...tournament, aggregation: e.target.value as TournamentAggregation })}
+            >
+              {TOURNAMENT_AGGREGATIONS.map(a => (
+                <option key={a.id} value={a.id} className="bg-white dark:bg-slate-900">{a.label} - {a.description}</option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        {standings.length === 0 ? (
+          <p className="text-gray-500 dark:text-ai-dim text-center py-12">아직 끝난 게임이 없습니다.</p>
+        ) : (
+          <div className="flex-1 overflow-auto custom-scrollbar">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-xs font-mono text-gray-500 dark:text-ai-dim border-b border-gray-200 dark:border-white/10">
+                  <th className="py-2 text-left w-12">순위</th>
+                  <th className="py-2 text-left">팀</th>
+                  {gameNumbers.map(n => (
+                    <th key={n} className="py-2 text-center">{n}번째 게임</th>
+                  ))}
+                  <th className="py-2 text-right">{getTournamentAggregationLabel(tournament.aggregation)}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {standings.map(s => (
+                  <tr key={s.teamNumber} className="border-b border-gray-100 dark:border-white/5">
+                    <td className="py-2 font-display font-bold text-lg text-slate-800 dark:text-white">
+                      {s.rank === 1 ? '🥇' : s.rank === 2 ? '🥈' : s.rank === 3 ? '🥉' : s.rank}
+                    </td>
+                    <td className="py-2">
+                      <span className="font-bold text-slate-800 dark:text-white">{s.teamNumber}조</span>
+                      {s.decidedBy && (
+                        <span className="block text-[10px] text-amber-600 dark:text-amber-400">동점 → {getTieBreakerLabel(s.decidedBy)}로 결정</span>
+                      )}
+                    </td>
+                    {gameNumbers.map(n => {
+                      const result = s.games.find(r => r.gameNumber === n);
+                      return (
+                        <td key={n} className="py-2 text-center">
+                          {result ? (
+                            <>
+                              <span className="font-mono">{result.score}점</span>
+                              <span className="ml-1 text-xs text-gray-500 dark:text-ai-dim">({result.rank}위)</span>
+                              {tournament.aggregation === 'RANK_POINTS' && (
+                                <span className="block text-[10px] text-cyan-600 dark:text-ai-primary">+{result.points}P</span>
+                              )}
+                            </>
+                          ) : (
+                            <span className="text-gray-400">-</span>
+                          )}
+                        </td>
+                      );
+                    })}
+                    <td className="py-2 text-right font-mono font-bold text-lg text-purple-600 dark:text-ai-secondary">{s.total}{unit}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
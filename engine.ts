@@ -0,0 +1,906 @@
+import { GameState, GameAction, ActionBase, CreateGameOptions, RuleViolation, RuleViolationCode, Team, RoundTimer, Tournament } from './types';
+import { createFullDeck, calculatePlayerScore, checkGameEnd, calculateFinalRanking, getHindsightOptimum, restoreBoardArray, generateGridLabels, getBoardSize, getScoringRules, getDefaultScoreTable, DEFAULT_BOARD_SIZE, CLASSIC_DECK, getDeckSpec, getDeckSize, MAX_DECK_SIZE, MAX_SEED, generateRandomBoardNumbers, getRevealRoll, getDecisionMode, getTeamCaptainId, getTeamViceCaptainId, getCaptainVoteCounts, getProposalTally, TEAM_DECISION_MODES, PLAYER_AIDS, TIMEOUT_POLICIES, MAX_PLACEMENT_TIME_LIMIT, getTimeoutPolicy, getTimerRemainingMs, getGamePhase, getTeamsHoldingCurrentNumber, getGameNumber, getArchivedGames, TOURNAMENT_AGGREGATIONS, MAX_TOURNAMENT_GAMES } from './utils';
+import { AI_PLAYER_NAME, PLACEMENT_STRATEGIES, chooseAIPlacement, buildTeamDebrief } from './ai';
+
+// ==========================================
+// GAME RULES ENGINE
+// ==========================================
+// Pure game transitions, free of React and storage. The UI, headless
+// simulations and tests all drive a game through createGame() and apply().
+
+const MAX_PLAYERS_PER_TEAM = 10;
+const MIN_BOARD_SIZE = 5;
+const MAX_BOARD_SIZE = 30;
+
+// Rooms still open this long after creation may be closed by any client
+export const GAME_EXPIRY_HOURS = 24;
+// ...and deleted after this long, along with their chats
+export const GAME_RETENTION_HOURS = 168;
+
+const violation = (code: RuleViolationCode, message: string): RuleViolation => ({
+  kind: 'RULE_VIOLATION',
+  code,
+  message
+});
+
+export const isRuleViolation = (result: unknown): result is RuleViolation => {
+  return !!result && typeof result === 'object' && (result as RuleViolation).kind === 'RULE_VIOLATION';
+};
+
+// Firebase may return objects instead of arrays, so always read through these
+const getTeams = (state: GameState): Team[] => (Array.isArray(state.teams) ? state.teams : []);
+const getPlayers = (team: Team) => (Array.isArray(team.players) ? team.players : []);
+const isActiveTeam = (team: Team) => getPlayers(team).length > 0;
+
+// Every accepted transition bumps the version counter
+const commit = (state: GameState, updates: Partial<GameState>): GameState => ({
+  ...state,
+  ...updates,
+  version: (state.version || 0) + 1
+});
+
+const isValidSeed = (seed: number) => Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED;
+
+// Cover labels of this game's deck
+const getGridLabels = (state: GameState) => generateGridLabels(getDeckSize(getDeckSpec(state)));
+
+// Clears per-round placement flags when a new number goes out
+const resetPlacements = (teams: Team[]): Team[] =>
+  teams.map(t => ({ ...t, hasPlacedCurrentNumber: false, placedBy: null, proposals: {} }));
+
+// Why a team cannot place the current number right now, if anything
+const checkCanPlace = (state: GameState, team: Team | undefined): RuleViolation | null => {
+  if (!team) {
+    return violation('TEAM_NOT_FOUND', '존재하지 않는 팀입니다.');
+  }
+  if (!state.gameStarted || state.gameEnded) {
+    return violation('GAME_NOT_RUNNING', '진행 중인 게임이 아닙니다.');
+  }
+  if (getGamePhase(state) === 'PAUSED') {
+    return violation('GAME_PAUSED', '게임이 일시정지되었습니다.');
+  }
+  if (team.hasPlacedCurrentNumber) {
+    return violation('ALREADY_PLACED', '이미 이번 숫자를 배치했습니다.');
+  }
+  if (state.currentNumber === null || state.currentNumber === undefined) {
+    return violation('NO_CURRENT_NUMBER', '배치할 숫자가 없습니다.');
+  }
+  return null;
+};
+
+// Puts the current number on a team's board, however the team decided on the cell
+const placeNumber = (state: GameState, teamIndex: number, position: number, placedBy: string | null): GameState | RuleViolation => {
+  const teams = getTeams(state);
+  const team = teams[teamIndex];
+  const blocked = checkCanPlace(state, team);
+  if (blocked) return blocked;
+
+  const board = restoreBoardArray(team.board, getBoardSize(state));
+  if (!Number.isInteger(position) || position < 0 || position >= board.length) {
+    return violation('INVALID_POSITION', '잘못된 위치입니다.');
+  }
+  if (board[position] !== null) {
+    return violation('CELL_OCCUPIED', '이미 숫자가 배치된 칸입니다.');
+  }
+
+  const currentNumber = state.currentNumber as number | string;
+  const newBoard = [...board];
+  newBoard[position] = currentNumber;
+
+  const newTeams = [...teams];
+  newTeams[teamIndex] = {
+    ...team,
+    board: newBoard,
+    score: calculatePlayerScore(newBoard, getScoringRules(state)),
+    hasPlacedCurrentNumber: true,
+    placedBy,
+    placements: [
+      ...(Array.isArray(team.placements) ? team.placements : []),
+      { round: state.currentRound, value: currentNumber, position }
+    ]
+  };
+  return completeTurn(state, newTeams);
+};
+
+// Timed-out team under the DISCARD policy: done for this round, board untouched
+const discardNumber = (state: GameState, teamIndex: number, placedBy: string): GameState => {
+  const newTeams = [...getTeams(state)];
+  newTeams[teamIndex] = { ...newTeams[teamIndex], hasPlacedCurrentNumber: true, placedBy };
+  return completeTurn(state, newTeams);
+};
+
+// Stores a team's finished turn and closes the round (or the game) once every active team is done
+const completeTurn = (state: GameState, newTeams: Team[]): GameState => {
+  // Use explicit === true check to handle undefined values from Firebase
+  const allPlaced = newTeams.filter(isActiveTeam).every(t => t.hasPlacedCurrentNumber === true);
+
+  const next = commit(state, {
+    teams: newTeams,
+    waitingForPlacements: !allPlaced,
+    roundTimer: allPlaced ? null : state.roundTimer ?? null
+  });
+
+  if (allPlaced && checkGameEnd(next)) {
+    return finishGame(next, 'ENDED');
+  }
+  return next;
+};
+
+// Ranks the boards as they stand, whether the deck ran out or the host stopped early
+const finishGame = (state: GameState, phase: 'ENDED' | 'ABORTED'): GameState => {
+  const optimum = getHindsightOptimum(state);
+  return {
+    ...state,
+    phase,
+    gameEnded: true,
+    waitingForPlacements: false,
+    roundTimer: null,
+    finalRanking: calculateFinalRanking(state, optimum.score),
+    hindsightOptimum: optimum.score,
+    hindsightOptimumExact: optimum.exact
+  };
+};
+
+// Takes the current round's number back off a team's board, if it was placed there
+const removeRoundPlacement = (state: GameState, team: Team): Team => {
+  const placements = Array.isArray(team.placements) ? team.placements : [];
+  const placement = placements.find(p => p.round === state.currentRound);
+  const board = restoreBoardArray(team.board, getBoardSize(state));
+  if (placement && board[placement.position] === placement.value) {
+    board[placement.position] = null;
+  }
+  return {
+    ...team,
+    board,
+    score: calculatePlayerScore(board, getScoringRules(state)),
+    placements: placements.filter(p => p.round !== state.currentRound),
+    proposals: {},
+    // The previous round was complete, otherwise this number could not have gone out
+    hasPlacedCurrentNumber: isActiveTeam(team) && state.currentRound > 1,
+    placedBy: null
+  };
+};
+
+// Lobby election result: most votes leads, runner-up deputises; ties go to the earlier joiner
+const electTeamRoles = (team: Team): Pick<Team, 'captainId' | 'viceCaptainId'> => {
+  const counts = getCaptainVoteCounts(team);
+  const ranked = getPlayers(team)
+    .filter(p => counts.has(p.id))
+    .sort((a, b) => (counts.get(b.id) || 0) - (counts.get(a.id) || 0));
+  return { captainId: ranked[0]?.id ?? null, viceCaptainId: ranked[1]?.id ?? null };
+};
+
+// Takes a player off a lobby team with the captain votes they cast or received
+const removePlayer = (team: Team, playerId: string): Team => {
+  if (!getPlayers(team).some(p => p.id === playerId)) return team;
+  const votes = Object.entries(team.captainVotes || {});
+  const captainVotes = Object.fromEntries(votes.filter(([voter, candidate]) => voter !== playerId && candidate !== playerId));
+  const remaining: Team = { ...team, players: getPlayers(team).filter(p => p.id !== playerId), captainVotes };
+  if (Object.keys(captainVotes).length !== votes.length) return { ...remaining, ...electTeamRoles(remaining) };
+  return {
+    ...remaining,
+    captainId: team.captainId === playerId ? null : team.captainId ?? null,
+    viceCaptainId: team.viceCaptainId === playerId ? null : team.viceCaptainId ?? null
+  };
+};
+
+// Who takes over from a departing captain: the vice-captain if still
+// connected, otherwise the earliest-joined connected member
+const findCaptainSuccessor = (team: Team, leavingId: string): string | null => {
+  const candidates = getPlayers(team).filter(p => p.id !== leavingId && p.connected !== false);
+  const viceId = getTeamViceCaptainId(team);
+  return candidates.find(p => p.id === viceId)?.id ?? candidates[0]?.id ?? null;
+};
+
+// Why a tournament setup cannot be used, if anything
+const checkTournament = (tournament: Tournament | null): RuleViolation | null => {
+  if (!tournament) return null;
+  if (!TOURNAMENT_AGGREGATIONS.some(a => a.id === tournament.aggregation)) {
+    return violation('INVALID_GAME_SETUP', '알 수 없는 대회 집계 방식입니다.');
+  }
+  if (!Number.isInteger(tournament.totalGames) || tournament.totalGames < 2 || tournament.totalGames > MAX_TOURNAMENT_GAMES) {
+    return violation('INVALID_GAME_SETUP', `대회 게임 수는 2~${MAX_TOURNAMENT_GAMES}판 사이여야 합니다.`);
+  }
+  return null;
+};
+
+// Countdown for a freshly dealt number, if the game has a time limit
+const startRoundTimer = (state: GameState, startedAt: string | undefined): RoundTimer | null => {
+  const limit = state.placementTimeLimit || 0;
+  return limit > 0 && startedAt ? { startedAt, remainingMs: limit * 1000, paused: false } : null;
+};
+
+// AI teams place the freshly dealt number straight away
+const placeForAITeams = (state: GameState): GameState => {
+  let next = state;
+  getTeams(state).forEach((team, idx) => {
+    if (!team.isAI || team.hasPlacedCurrentNumber) return;
+    const result = apply(next, {
+      type: 'PLACE_NUMBER',
+      teamIndex: idx,
+      position: chooseAIPlacement(next, idx),
+      playerName: AI_PLAYER_NAME
+    });
+    if (!isRuleViolation(result)) next = result;
+  });
+  return next;
+};
+
+export const createGame = (options: CreateGameOptions): GameState | RuleViolation => {
+  const { companyName, teamCount } = options;
+  if (!companyName || isNaN(teamCount) || teamCount < 1) {
+    return violation('INVALID_GAME_SETUP', '회사명과 최소 1개 이상의 팀을 입력해주세요.');
+  }
+
+  const boardSize = options.boardSize ?? DEFAULT_BOARD_SIZE;
+  if (!Number.isInteger(boardSize) || boardSize < MIN_BOARD_SIZE || boardSize > MAX_BOARD_SIZE) {
+    return violation('INVALID_GAME_SETUP', `보드 칸 수는 ${MIN_BOARD_SIZE}~${MAX_BOARD_SIZE} 사이여야 합니다.`);
+  }
+
+  const scoreTable = options.scoreTable ?? getDefaultScoreTable(boardSize);
+  if (scoreTable.length < 2 || scoreTable.some(pts => !Number.isFinite(pts) || pts < 0)) {
+    return violation('INVALID_GAME_SETUP', '점수표는 0 이상의 숫자로 입력해주세요.');
+  }
+
+  const deckSpec = options.deckSpec ?? CLASSIC_DECK;
+  const ranges = Array.isArray(deckSpec.ranges) ? deckSpec.ranges : [];
+  const invalidRange = ranges.some(r =>
+    !Number.isInteger(r.from) || !Number.isInteger(r.to) || r.from > r.to || !Number.isInteger(r.copies) || r.copies < 1
+  );
+  if (invalidRange || !Number.isInteger(deckSpec.jokers) || deckSpec.jokers < 0) {
+    return violation('INVALID_GAME_SETUP', '덱 구성이 올바르지 않습니다.');
+  }
+  const deckSize = getDeckSize(deckSpec);
+  if (deckSize < boardSize || deckSize > MAX_DECK_SIZE) {
+    return violation('INVALID_GAME_SETUP', `덱은 보드 칸 수(${boardSize}) 이상, ${MAX_DECK_SIZE}장 이하여야 합니다.`);
+  }
+
+  if (!isValidSeed(options.seed)) {
+    return violation('INVALID_GAME_SETUP', `시드는 0~${MAX_SEED} 사이의 정수여야 합니다.`);
+  }
+
+  const aiDifficulty = options.aiDifficulty ?? 'MONTE_CARLO';
+  if (!PLACEMENT_STRATEGIES[aiDifficulty]) {
+    return violation('INVALID_GAME_SETUP', '알 수 없는 AI 난이도입니다.');
+  }
+
+  const decisionMode = options.decisionMode ?? 'FIRST_CLICK';
+  if (!TEAM_DECISION_MODES.some(m => m.id === decisionMode)) {
+    return violation('INVALID_GAME_SETUP', '알 수 없는 팀 결정 방식입니다.');
+  }
+
+  const playerAids = options.playerAids ?? [];
+  if (playerAids.some(aid => !PLAYER_AIDS.some(a => a.id === aid))) {
+    return violation('INVALID_GAME_SETUP', '알 수 없는 플레이어 도움 기능입니다.');
+  }
+
+  const placementTimeLimit = options.placementTimeLimit ?? 0;
+  if (!Number.isInteger(placementTimeLimit) || placementTimeLimit < 0 || placementTimeLimit > MAX_PLACEMENT_TIME_LIMIT) {
+    return violation('INVALID_GAME_SETUP', `제한 시간은 0~${MAX_PLACEMENT_TIME_LIMIT}초 사이여야 합니다.`);
+  }
+  const timeoutPolicy = options.timeoutPolicy ?? 'WAIT';
+  if (!TIMEOUT_POLICIES.some(p => p.id === timeoutPolicy)) {
+    return violation('INVALID_GAME_SETUP', '알 수 없는 시간 초과 처리 방식입니다.');
+  }
+  const tournament = options.tournament ?? null;
+  const tournamentProblem = checkTournament(tournament);
+  if (tournamentProblem) return tournamentProblem;
+
+  // Always use RANDOM_BOARD mode (CONTROL mode removed)
+  return {
+    companyName,
+    teamCount,
+    teams: Array.from({ length: teamCount }, (_, i) => ({
+      teamNumber: i + 1,
+      players: [],
+      board: Array(boardSize).fill(null),
+      score: 0,
+      hasPlacedCurrentNumber: false,
+      placedBy: null
+    })),
+    availableNumbers: createFullDeck(deckSpec),
+    usedNumbers: [],
+    usedCardIndices: [],
+    currentNumber: null,
+    gameStarted: false,
+    gameEnded: false,
+    phase: 'LOBBY',
+    waitingForPlacements: false,
+    currentRound: 0,
+    finalRanking: [],
+    creatorId: options.creatorId,
+    createdAt: options.createdAt,
+    gameMode: 'RANDOM_BOARD',
+    randomBoardNumbers: generateRandomBoardNumbers(deckSpec, options.seed),
+    revealedCells: [],
+    pendingRandomNumber: null,
+    jokerRule: options.jokerRule || 'OPTIMAL',
+    boardSize,
+    scoreTable,
+    deckSpec,
+    seed: options.seed,
+    aiDifficulty,
+    decisionMode,
+    playerAids,
+    placementTimeLimit,
+    timeoutPolicy,
+    roundTimer: null,
+    tournament,
+    version: 1
+  };
+};
+
+export const apply = (state: GameState, action: GameAction): GameState | RuleViolation => {
+  switch (action.type) {
+    case 'JOIN_TEAM': {
+      // A browser joining again leaves its old entry, so it never counts twice toward a quorum
+      const replaced = action.replacesPlayerId;
+      const teams = replaced ? getTeams(state).map(t => removePlayer(t, replaced)) : getTeams(state);
+      const team = teams[action.teamIndex];
+      // Seats are settled before the first number, so nobody can switch into another team's board
+      if (state.gameStarted) {
+        return violation('GAME_ALREADY_STARTED', '이미 시작된 게임에는 참가할 수 없습니다.');
+      }
+      if (!action.player.name.trim()) {
+        return violation('EMPTY_PLAYER_NAME', '이름을 입력해주세요.');
+      }
+      if (!team) {
+        return violation('TEAM_NOT_FOUND', '존재하지 않는 팀입니다.');
+      }
+      if (team.isAI) {
+        return violation('AI_TEAM_NOT_JOINABLE', 'AI 팀에는 참가할 수 없습니다.');
+      }
+      const players = getPlayers(team);
+      if (players.length >= MAX_PLAYERS_PER_TEAM) {
+        return violation('TEAM_FULL', '이 팀은 정원이 초과되었습니다.');
+      }
+      if (players.some(p => p.name === action.player.name)) {
+        return violation('DUPLICATE_PLAYER_NAME', '이미 이 팀에 존재하는 이름입니다.');
+      }
+
+      const newTeams = teams.map((t, idx) =>
+        idx === action.teamIndex ? { ...t, players: [...players, action.player] } : t
+      );
+      return commit(state, { teams: newTeams });
+    }
+
+    // Adds a computer-controlled team with a single AI "player" so it counts as active
+    case 'ADD_AI_TEAM': {
+      if (state.gameStarted) {
+        return violation('GAME_ALREADY_STARTED', '게임 시작 전에만 AI 팀을 추가할 수 있습니다.');
+      }
+
+      const teams = getTeams(state);
+      const teamNumber = teams.reduce((max, t) => Math.max(max, t.teamNumber), 0) + 1;
+      const aiTeam: Team = {
+        teamNumber,
+        players: [{ id: `ai_${teamNumber}`, name: AI_PLAYER_NAME, joinedAt: action.joinedAt }],
+        board: Array(getBoardSize(state)).fill(null),
+        score: 0,
+        hasPlacedCurrentNumber: false,
+        placedBy: null,
+        isAI: true
+      };
+      return commit(state, { teams: [...teams, aiTeam], teamCount: teams.length + 1 });
+    }
+
+    case 'START_GAME': {
+      if (state.gameStarted) {
+        return violation('GAME_ALREADY_STARTED', '이미 시작된 게임입니다.');
+      }
+      if (getTeams(state).filter(isActiveTeam).length < 1) {
+        return violation('NO_ACTIVE_TEAMS', '최소 1팀 이상 참가해야 합니다.');
+      }
+      if (!isValidSeed(action.seed)) {
+        return violation('INVALID_GAME_SETUP', `시드는 0~${MAX_SEED} 사이의 정수여야 합니다.`);
+      }
+
+      // Always use RANDOM_BOARD mode
+      return commit(state, {
+        gameStarted: true,
+        phase: 'RUNNING',
+        currentRound: 0,
+        currentNumber: null,
+        gameMode: 'RANDOM_BOARD',
+        seed: action.seed,
+        randomBoardNumbers: generateRandomBoardNumbers(getDeckSpec(state), action.seed),
+        revealedCells: [],
+        pendingRandomNumber: null
+      });
+    }
+
+    // RANDOM_BOARD mode: mark a cover as pending (its value comes from the shuffled board)
+    case 'SELECT_CELL': {
+      if (!state.gameStarted || state.gameEnded) {
+        return violation('GAME_NOT_RUNNING', '진행 중인 게임이 아닙니다.');
+      }
+      if (getGamePhase(state) === 'PAUSED') {
+        return violation('GAME_PAUSED', '게임이 일시정지되었습니다.');
+      }
+      if (state.waitingForPlacements) {
+        return violation('WAITING_FOR_PLACEMENTS', '모든 팀이 숫자를 배치할 때까지 기다려주세요.');
+      }
+
+      const revealedCells = Array.isArray(state.revealedCells) ? state.revealedCells : [];
+      if (revealedCells.includes(action.cellLabel)) {
+        return violation('CELL_ALREADY_REVEALED', '이미 출제된 셀입니다.');
+      }
+
+      const index = getGridLabels(state).indexOf(action.cellLabel);
+      const randomBoardNumbers = Array.isArray(state.randomBoardNumbers) ? state.randomBoardNumbers : [];
+      if (index === -1 || randomBoardNumbers[index] === undefined) {
+        return violation('UNKNOWN_CELL', '존재하지 않는 셀입니다.');
+      }
+
+      return commit(state, {
+        pendingRandomNumber: { value: randomBoardNumbers[index], cellLabel: action.cellLabel }
+      });
+    }
+
+    // RANDOM_BOARD mode: pick one of the unrevealed covers using the seeded roll
+    case 'RANDOM_REVEAL': {
+      if (!state.gameStarted || state.gameEnded) {
+        return violation('GAME_NOT_RUNNING', '진행 중인 게임이 아닙니다.');
+      }
+      if (state.waitingForPlacements) {
+        return violation('WAITING_FOR_PLACEMENTS', '모든 팀이 숫자를 배치할 때까지 기다려주세요.');
+      }
+
+      const revealedCells = Array.isArray(state.revealedCells) ? state.revealedCells : [];
+      const unrevealed = getGridLabels(state).filter(label => !revealedCells.includes(label));
+      if (unrevealed.length === 0) {
+        return violation('ALL_CELLS_REVEALED', '모든 숫자가 이미 출제되었습니다.');
+      }
+
+      // Games started before seeds existed fall back to the caller's roll
+      const rawRoll = state.seed !== undefined && state.seed !== null
+        ? getRevealRoll(state.seed, revealedCells.length)
+        : action.roll ?? 0;
+      const roll = Math.min(Math.max(rawRoll, 0), 0.999999);
+      const cellLabel = unrevealed[Math.floor(roll * unrevealed.length)];
+      return apply(state, { type: 'SELECT_CELL', cellLabel });
+    }
+
+    // RANDOM_BOARD mode: send the pending number to every team (AI teams place it at once)
+    case 'SUBMIT_NUMBER': {
+      if (!state.gameStarted || state.gameEnded) {
+        return violation('GAME_NOT_RUNNING', '진행 중인 게임이 아닙니다.');
+      }
+      if (getGamePhase(state) === 'PAUSED') {
+        return violation('GAME_PAUSED', '게임이 일시정지되었습니다.');
+      }
+      if (!state.pendingRandomNumber) {
+        return violation('NO_PENDING_NUMBER', '출제할 숫자를 먼저 선택해주세요.');
+      }
+      if (state.waitingForPlacements) {
+        return violation('WAITING_FOR_PLACEMENTS', '모든 팀이 숫자를 배치할 때까지 기다려주세요.');
+      }
+
+      const { value, cellLabel } = state.pendingRandomNumber;
+      const revealedCells = Array.isArray(state.revealedCells) ? state.revealedCells : [];
+
+      return placeForAITeams(commit(state, {
+        currentNumber: value,
+        usedNumbers: [...(Array.isArray(state.usedNumbers) ? state.usedNumbers : []), value],
+        revealedCells: [...revealedCells, cellLabel],
+        pendingRandomNumber: null,
+        waitingForPlacements: true,
+        currentRound: state.currentRound + 1,
+        teams: resetPlacements(getTeams(state)),
+        roundTimer: startRoundTimer(state, action.startedAt)
+      }));
+    }
+
+    case 'PLACE_NUMBER': {
+      const team = getTeams(state)[action.teamIndex];
+      // Human teams outside FIRST_CLICK place through PROPOSE_CELL / CONFIRM_PLACEMENT
+      if (team && !team.isAI && getDecisionMode(state) !== 'FIRST_CLICK') {
+        return violation('CONSENSUS_REQUIRED', '팀 합의로만 배치할 수 있습니다.');
+      }
+      return placeNumber(state, action.teamIndex, action.position, action.playerName);
+    }
+
+    // Records (or withdraws) a member's proposal; MAJORITY / UNANIMOUS teams
+    // place as soon as enough members agree on one cell
+    case 'PROPOSE_CELL': {
+      const teams = getTeams(state);
+      const team = teams[action.teamIndex];
+      const blocked = checkCanPlace(state, team);
+      if (blocked) return blocked;
+
+      const player = getPlayers(team).find(p => p.id === action.playerId);
+      if (!player) {
+        return violation('PLAYER_NOT_IN_TEAM', '이 팀의 팀원만 제안할 수 있습니다.');
+      }
+      if (action.position !== null) {
+        const board = restoreBoardArray(team.board, getBoardSize(state));
+        if (!Number.isInteger(action.position) || action.position < 0 || action.position >= board.length) {
+          return violation('INVALID_POSITION', '잘못된 위치입니다.');
+        }
+        if (board[action.position] !== null) {
+          return violation('CELL_OCCUPIED', '이미 숫자가 배치된 칸입니다.');
+        }
+      }
+
+      const proposedTeam: Team = {
+        ...team,
+        proposals: {
+          ...(team.proposals || {}),
+          [player.id]: {
+            playerId: player.id,
+            playerName: player.name,
+            position: action.position,
+            round: state.currentRound,
+            proposedAt: action.proposedAt
+          }
+        }
+      };
+      const newTeams = [...teams];
+      newTeams[action.teamIndex] = proposedTeam;
+      const next = commit(state, { teams: newTeams });
+
+      const mode = getDecisionMode(state);
+      const members = getPlayers(proposedTeam).length;
+      const leader = getProposalTally(proposedTeam, state.currentRound)[0];
+      const agreed = !!leader && (
+        (mode === 'MAJORITY' && leader.votes * 2 > members) ||
+        (mode === 'UNANIMOUS' && leader.votes === members)
+      );
+      return agreed
+        ? placeNumber(next, action.teamIndex, leader.position, `팀 합의 (${leader.votes}/${members})`)
+        : next;
+    }
+
+    case 'CONFIRM_PLACEMENT': {
+      const team = getTeams(state)[action.teamIndex];
+      if (!team) {
+        return violation('TEAM_NOT_FOUND', '존재하지 않는 팀입니다.');
+      }
+      if (getDecisionMode(state) !== 'CAPTAIN') {
+        return violation('CONSENSUS_REQUIRED', '이 게임은 팀원 투표로 배치가 확정됩니다.');
+      }
+      if (getTeamCaptainId(team) !== action.playerId) {
+        return violation('CAPTAIN_ONLY', '팀장만 배치를 확정할 수 있습니다.');
+      }
+      const captain = getPlayers(team).find(p => p.id === action.playerId);
+      return placeNumber(state, action.teamIndex, action.position, captain ? captain.name : null);
+    }
+
+    // Host appoints the captain or vice-captain (null clears the role)
+    case 'ASSIGN_TEAM_ROLE': {
+      const teams = getTeams(state);
+      const team = teams[action.teamIndex];
+      if (!team) {
+        return violation('TEAM_NOT_FOUND', '존재하지 않는 팀입니다.');
+      }
+      if (team.isAI) {
+        return violation('INVALID_TEAM_ROLE', 'AI 팀에는 역할을 지정할 수 없습니다.');
+      }
+      if (action.playerId !== null && !getPlayers(team).some(p => p.id === action.playerId)) {
+        return violation('PLAYER_NOT_IN_TEAM', '이 팀의 팀원이 아닙니다.');
+      }
+
+      const viceId = getTeamViceCaptainId(team);
+      let roles: Pick<Team, 'captainId' | 'viceCaptainId'>;
+      if (action.role === 'CAPTAIN') {
+        roles = { captainId: action.playerId, viceCaptainId: viceId === action.playerId ? null : viceId };
+      } else {
+        if (action.playerId !== null && action.playerId === getTeamCaptainId(team)) {
+          return violation('INVALID_TEAM_ROLE', '팀장은 부팀장을 겸할 수 없습니다.');
+        }
+        roles = { viceCaptainId: action.playerId };
+      }
+
+      const newTeams = [...teams];
+      newTeams[action.teamIndex] = { ...team, ...roles };
+      return commit(state, { teams: newTeams });
+    }
+
+    // A member's ballot in the lobby election; re-voting replaces the earlier ballot
+    case 'VOTE_CAPTAIN': {
+      const teams = getTeams(state);
+      const team = teams[action.teamIndex];
+      if (!team) {
+        return violation('TEAM_NOT_FOUND', '존재하지 않는 팀입니다.');
+      }
+      if (state.gameStarted) {
+        return violation('GAME_ALREADY_STARTED', '게임 시작 전에만 팀장을 뽑을 수 있습니다.');
+      }
+      const players = getPlayers(team);
+      if (!players.some(p => p.id === action.voterId) || !players.some(p => p.id === action.candidateId)) {
+        return violation('PLAYER_NOT_IN_TEAM', '같은 팀 팀원끼리만 투표할 수 있습니다.');
+      }
+
+      const votedTeam: Team = {
+        ...team,
+        captainVotes: { ...(team.captainVotes || {}), [action.voterId]: action.candidateId }
+      };
+      const newTeams = [...teams];
+      newTeams[action.teamIndex] = { ...votedTeam, ...electTeamRoles(votedTeam) };
+      return commit(state, { teams: newTeams });
+    }
+
+    // Presence change reported by the storage layer. A disconnecting captain
+    // hands over at once so the team is never left unable to confirm.
+    case 'SET_PLAYER_CONNECTION': {
+      const teams = getTeams(state);
+      const team = teams[action.teamIndex];
+      if (!team) {
+        return violation('TEAM_NOT_FOUND', '존재하지 않는 팀입니다.');
+      }
+      const player = getPlayers(team).find(p => p.id === action.playerId);
+      if (!player) {
+        return violation('PLAYER_NOT_IN_TEAM', '이 팀의 팀원이 아닙니다.');
+      }
+      if ((player.connected !== false) === action.connected) return state;
+
+      let updatedTeam: Team = {
+        ...team,
+        players: getPlayers(team).map(p => (p.id === action.playerId ? { ...p, connected: action.connected } : p))
+      };
+      if (!action.connected) {
+        const viceId = getTeamViceCaptainId(team);
+        if (getTeamCaptainId(team) === action.playerId) {
+          const successor = findCaptainSuccessor(team, action.playerId);
+          if (successor) {
+            updatedTeam = { ...updatedTeam, captainId: successor, viceCaptainId: viceId === successor ? null : viceId };
+          }
+        } else if (viceId === action.playerId) {
+          updatedTeam = { ...updatedTeam, viceCaptainId: null };
+        }
+      } else {
+        // Nobody was left to take over earlier; the first member back leads
+        const captain = getPlayers(team).find(p => p.id === getTeamCaptainId(team));
+        if (captain && captain.connected === false) {
+          updatedTeam = { ...updatedTeam, captainId: action.playerId };
+        }
+      }
+
+      const newTeams = [...teams];
+      newTeams[action.teamIndex] = updatedTeam;
+      return commit(state, { teams: newTeams });
+    }
+
+    // Host switches a player aid on or off; allowed mid-game
+    case 'SET_PLAYER_AID': {
+      if (!PLAYER_AIDS.some(a => a.id === action.aid)) {
+        return violation('INVALID_GAME_SETUP', '알 수 없는 플레이어 도움 기능입니다.');
+      }
+      const aids = (Array.isArray(state.playerAids) ? state.playerAids : []).filter(aid => aid !== action.aid);
+      return commit(state, { playerAids: action.enabled ? [...aids, action.aid] : aids });
+    }
+
+    case 'PAUSE_TIMER': {
+      const timer = state.roundTimer;
+      if (!timer || timer.paused) {
+        return violation('NO_ROUND_TIMER', '진행 중인 타이머가 없습니다.');
+      }
+      return commit(state, {
+        roundTimer: { startedAt: null, remainingMs: getTimerRemainingMs(timer, new Date(action.now).getTime()), paused: true }
+      });
+    }
+
+    case 'RESUME_TIMER': {
+      if (getGamePhase(state) === 'PAUSED') {
+        return violation('GAME_PAUSED', '게임이 일시정지되었습니다.');
+      }
+      const timer = state.roundTimer;
+      if (!timer || !timer.paused) {
+        return violation('NO_ROUND_TIMER', '일시정지된 타이머가 없습니다.');
+      }
+      return commit(state, { roundTimer: { ...timer, startedAt: action.now, paused: false } });
+    }
+
+    // Time is up: every human team still placing is handled by the game's timeout policy
+    case 'RESOLVE_TIMEOUT': {
+      const timer = state.roundTimer;
+      if (!timer || !state.waitingForPlacements) {
+        return violation('NO_ROUND_TIMER', '진행 중인 타이머가 없습니다.');
+      }
+      if (timer.paused || getTimerRemainingMs(timer, new Date(action.now).getTime()) > 0) {
+        return violation('TIMER_NOT_EXPIRED', '아직 제한 시간이 남았습니다.');
+      }
+
+      const policy = getTimeoutPolicy(state);
+      if (policy === 'WAIT') return state;
+
+      let next = state;
+      getTeams(state).forEach((team, idx) => {
+        if (team.isAI || !isActiveTeam(team) || team.hasPlacedCurrentNumber) return;
+        if (policy === 'DISCARD') {
+          next = discardNumber(next, idx, '시간 초과 (버림)');
+          return;
+        }
+        const board = restoreBoardArray(team.board, getBoardSize(next));
+        const position = policy === 'AI_PLACE' ? chooseAIPlacement(next, idx) : board.indexOf(null);
+        const result = placeNumber(next, idx, position, policy === 'AI_PLACE' ? '시간 초과 (AI 배치)' : '시간 초과 (자동 배치)');
+        if (!isRuleViolation(result)) next = result;
+      });
+      return next;
+    }
+
+    // A break: placements and reveals are refused and the round clock stops
+    case 'PAUSE_GAME': {
+      if (getGamePhase(state) !== 'RUNNING') {
+        return violation('GAME_NOT_RUNNING', '진행 중인 게임이 아닙니다.');
+      }
+      const timer = state.roundTimer;
+      return commit(state, {
+        phase: 'PAUSED',
+        roundTimer: timer && !timer.paused
+          ? { startedAt: null, remainingMs: getTimerRemainingMs(timer, new Date(action.now).getTime()), paused: true }
+          : timer ?? null
+      });
+    }
+
+    // Resuming the game also restarts the round clock
+    case 'RESUME_GAME': {
+      if (getGamePhase(state) !== 'PAUSED') {
+        return violation('GAME_NOT_PAUSED', '일시정지된 게임이 아닙니다.');
+      }
+      const timer = state.roundTimer;
+      return commit(state, {
+        phase: 'RUNNING',
+        roundTimer: timer && timer.paused ? { ...timer, startedAt: action.now, paused: false } : timer ?? null
+      });
+    }
+
+    case 'ABORT_GAME': {
+      const phase = getGamePhase(state);
+      if (phase !== 'RUNNING' && phase !== 'PAUSED') {
+        return violation('GAME_NOT_RUNNING', '진행 중인 게임이 아닙니다.');
+      }
+      return finishGame(commit(state, { pendingRandomNumber: null }), 'ABORTED');
+    }
+
+    // Host mis-click: puts the last dealt number back behind its cover
+    case 'UNDO_REVEAL': {
+      if (!state.gameStarted || state.gameEnded) {
+        return violation('GAME_NOT_RUNNING', '진행 중인 게임이 아닙니다.');
+      }
+      // A selected cell that isn't dealt yet is all there is to take back
+      if (state.pendingRandomNumber) {
+        return commit(state, { pendingRandomNumber: null });
+      }
+      const usedNumbers = Array.isArray(state.usedNumbers) ? state.usedNumbers : [];
+      if (state.currentRound < 1 || usedNumbers.length === 0) {
+        return violation('NOTHING_TO_UNDO', '되돌릴 출제 기록이 없습니다.');
+      }
+      const holders = getTeamsHoldingCurrentNumber(state);
+      if (holders.length > 0 && !action.removePlacements) {
+        return violation('PLACEMENTS_EXIST', `이미 배치한 팀이 있습니다: ${holders.map(t => `${t.teamNumber}조${t.isAI ? ' 🤖' : ''}`).join(', ')}`);
+      }
+
+      const remainingNumbers = usedNumbers.slice(0, -1);
+      const revealedCells = Array.isArray(state.revealedCells) ? state.revealedCells : [];
+      const usedCardIndices = Array.isArray(state.usedCardIndices) ? state.usedCardIndices : [];
+      return commit(state, {
+        teams: getTeams(state).map(t => removeRoundPlacement(state, t)),
+        usedNumbers: remainingNumbers,
+        // RANDOM_BOARD deals from covers, CONTROL from open card indices
+        revealedCells: state.gameMode === 'RANDOM_BOARD' ? revealedCells.slice(0, -1) : revealedCells,
+        usedCardIndices: state.gameMode === 'CONTROL' ? usedCardIndices.slice(0, -1) : usedCardIndices,
+        currentNumber: remainingNumbers.length > 0 ? remainingNumbers[remainingNumbers.length - 1] : null,
+        currentRound: state.currentRound - 1,
+        pendingRandomNumber: null,
+        waitingForPlacements: false,
+        roundTimer: null
+      });
+    }
+
+    // Same room, same teams and roles, fresh boards and deck; the finished game is kept for comparison
+    case 'REMATCH': {
+      if (!state.gameEnded) {
+        return violation('GAME_NOT_ENDED', '게임이 끝난 뒤에 재경기를 시작할 수 있습니다.');
+      }
+      if (!isValidSeed(action.seed)) {
+        return violation('INVALID_GAME_SETUP', `시드는 0~${MAX_SEED} 사이의 정수여야 합니다.`);
+      }
+
+      const { archivedGames: _previous, ...finished } = state;
+      // Dropped rather than set to undefined, which Firebase refuses to store
+      const { hindsightOptimum: _optimum, hindsightOptimumExact: _exact, ...base } = finished;
+      const boardSize = getBoardSize(state);
+      const deckSpec = getDeckSpec(state);
+      const teams = getTeams(state).map(({ debrief: _debrief, ...t }) => ({
+        ...t,
+        board: Array(boardSize).fill(null),
+        score: 0,
+        hasPlacedCurrentNumber: false,
+        placedBy: null,
+        placements: [],
+        proposals: {}
+      }));
+
+      return commit(base, {
+        teams,
+        availableNumbers: createFullDeck(deckSpec),
+        usedNumbers: [],
+        usedCardIndices: [],
+        currentNumber: null,
+        gameStarted: true,
+        gameEnded: false,
+        phase: 'RUNNING',
+        waitingForPlacements: false,
+        currentRound: 0,
+        finalRanking: [],
+        seed: action.seed,
+        randomBoardNumbers: generateRandomBoardNumbers(deckSpec, action.seed),
+        revealedCells: [],
+        pendingRandomNumber: null,
+        roundTimer: null,
+        gameNumber: getGameNumber(state) + 1,
+        archivedGames: [...getArchivedGames(state), finished]
+      });
+    }
+
+    case 'SET_TOURNAMENT': {
+      const problem = checkTournament(action.tournament);
+      if (problem) return problem;
+      return commit(state, { tournament: action.tournament });
+    }
+
+    // Post-game analysis of one team; slow (Monte Carlo per round), so run on demand
+    case 'BUILD_DEBRIEF': {
+      const teams = getTeams(state);
+      const team = teams[action.teamIndex];
+      if (!team) {
+        return violation('TEAM_NOT_FOUND', '존재하지 않는 팀입니다.');
+      }
+      if (!state.gameEnded) {
+        return violation('GAME_NOT_ENDED', '게임이 끝난 뒤에 분석할 수 있습니다.');
+      }
+      if (!Array.isArray(team.placements) || team.placements.length === 0) {
+        return violation('NO_PLACEMENT_HISTORY', '이 팀은 배치 기록이 없어 분석할 수 없습니다.');
+      }
+
+      const newTeams = [...teams];
+      newTeams[action.teamIndex] = { ...team, debrief: buildTeamDebrief(state, action.teamIndex) };
+      return commit(state, { teams: newTeams });
+    }
+
+    // Housekeeping for abandoned rooms, in any phase short of finished
+    case 'EXPIRE_GAME': {
+      if (state.gameEnded) {
+        return violation('GAME_NOT_RUNNING', '이미 끝난 게임입니다.');
+      }
+      const hoursOpen = (new Date(action.now).getTime() - new Date(state.createdAt).getTime()) / (1000 * 60 * 60);
+      if (!(hoursOpen >= GAME_EXPIRY_HOURS)) {
+        return violation('GAME_NOT_EXPIRED', `생성 후 ${GAME_EXPIRY_HOURS}시간이 지나야 자동 종료됩니다.`);
+      }
+      return finishGame(commit(state, { pendingRandomNumber: null }), 'ABORTED');
+    }
+  }
+};
+
+// Team actions are re-checked by apply() against whatever they land on, so they
+// only conflict with a change of round; every other action needs the exact version
+const REBASABLE_ACTIONS: GameAction['type'][] = [
+  'JOIN_TEAM',
+  'PLACE_NUMBER',
+  'PROPOSE_CELL',
+  'CONFIRM_PLACEMENT',
+  'VOTE_CAPTAIN',
+  'SET_PLAYER_CONNECTION',
+  'RESOLVE_TIMEOUT'
+];
+
+// Compare-and-set: applies an action decided on `base` to the latest `state`,
+// or rejects it with VERSION_CONFLICT when the game moved on in between.
+// Without a base (a client that only has the lobby entry) it just applies.
+export const applyAtVersion = (
+  state: GameState,
+  action: GameAction,
+  base?: ActionBase
+): GameState | RuleViolation => {
+  if (!base || (state.version || 0) === (base.version || 0)) {
+    return apply(state, action);
+  }
+  if (!REBASABLE_ACTIONS.includes(action.type)) {
+    return violation('VERSION_CONFLICT', '다른 변경이 먼저 반영되었습니다. 최신 화면에서 다시 시도해주세요.');
+  }
+  if (state.currentRound !== base.currentRound || state.currentNumber !== base.currentNumber) {
+    return violation('VERSION_CONFLICT', '그 사이 다음 숫자로 넘어갔습니다. 최신 화면에서 다시 시도해주세요.');
+  }
+  return apply(state, action);
+};
@@ -1,6 +1,8 @@
 import { initializeApp, FirebaseApp } from 'firebase/app';
-import { getDatabase, ref, onValue, set, get, Database } from 'firebase/database';
-import { GameState, Member, AccessLog } from './types';
+import { getDatabase, ref, onValue, onDisconnect, set, get, update, runTransaction, Database } from 'firebase/database';
+import { GameState, GameIndexEntry, Member, AccessLog, ChatMessage, TeamChatLog, RuleViolation, GameRepository } from './types';
+import { generateGameId, buildGameIndexEntry } from './utils';
+import { isRuleViolation, createGame, applyAtVersion } from './engine';
 
 // Firebase configuration
 const firebaseConfig = {
@@ -43,61 +45,321 @@ const toArray = <T>(data: any): T[] => {
 };
 
 // --- GAMES ---
-export const subscribeToGames = (callback: (games: GameState[]) => void) => {
+// games/<gameId> holds one room's full state (teams under games/<gameId>/teams/<i>)
+// and gameIndex/<gameId> its lobby summary. Clients subscribe to the room they
+// are in and change it only by transaction, so one room's traffic never
+// rewrites another room.
+const gamePath = (gameId: string, path?: string) => (path ? `games/${gameId}/${path}` : `games/${gameId}`);
+
+const syncFailed: RuleViolation = {
+  kind: 'RULE_VIOLATION',
+  code: 'SYNC_FAILED',
+  message: '서버에 저장하지 못했습니다. 네트워크 연결을 확인해주세요.'
+};
+
+// The lobby summary trails the room; a lost write is repaired by the next one
+const updateIndexEntry = (game: GameState) => {
+  if (!database) return;
+  set(ref(database, `gameIndex/${generateGameId(game.companyName)}`), buildGameIndexEntry(game))
+    .catch(error => console.error('Failed to update game index in Firebase:', error));
+};
+
+export const subscribeToGameIndex = (callback: (entries: GameIndexEntry[]) => void) => {
   if (!firebaseInitialized || !database) {
-    console.warn('Firebase not initialized, skipping games subscription');
-    callback([]); // Still call callback with empty array
+    console.warn('Firebase not initialized, skipping game index subscription');
+    callback([]);
     return () => {};
   }
 
   try {
-    const gamesRef = ref(database, 'games');
-
-    return onValue(gamesRef, (snapshot) => {
+    return onValue(ref(database, 'gameIndex'), (snapshot) => {
       try {
-        const data = snapshot.val();
-        callback(toArray<GameState>(data));
+        callback(toArray<GameIndexEntry>(snapshot.val()));
       } catch (e) {
-        console.error('Error processing games data:', e);
+        console.error('Error processing game index data:', e);
         callback([]);
       }
     }, (error) => {
-      console.error('Error subscribing to games:', error);
+      console.error('Error subscribing to game index:', error);
       callback([]);
     });
   } catch (error) {
-    console.error('Error setting up games subscription:', error);
+    console.error('Error setting up game index subscription:', error);
     callback([]);
     return () => {};
   }
 };
 
-export const saveGames = async (games: GameState[]) => {
+export const getGameIndex = async (): Promise<GameIndexEntry[]> => {
+  if (!firebaseInitialized || !database) {
+    return [];
+  }
+
+  try {
+    const snapshot = await get(ref(database, 'gameIndex'));
+    return toArray<GameIndexEntry>(snapshot.val());
+  } catch (error) {
+    console.error('Failed to get game index from Firebase:', error);
+    return [];
+  }
+};
+
+// Calls back with null once the room has been deleted
+export const subscribeToGame = (gameId: string, callback: (game: GameState | null) => void) => {
+  if (!firebaseInitialized || !database) {
+    console.warn('Firebase not initialized, skipping game subscription');
+    return () => {};
+  }
+
+  try {
+    return onValue(ref(database, gamePath(gameId)), (snapshot) => {
+      callback(snapshot.val() as GameState | null);
+    }, (error) => {
+      console.error('Error subscribing to game:', error);
+    });
+  } catch (error) {
+    console.error('Error setting up game subscription:', error);
+    return () => {};
+  }
+};
+
+export const getGame = async (gameId: string): Promise<GameState | null> => {
   if (!firebaseInitialized || !database) {
-    console.warn('Firebase not initialized, skipping save games');
+    return null;
+  }
+
+  try {
+    const snapshot = await get(ref(database, gamePath(gameId)));
+    return snapshot.val() as GameState | null;
+  } catch (error) {
+    console.error('Failed to get game from Firebase:', error);
+    return null;
+  }
+};
+
+// Creates a room unless one with the same id is already stored
+export const addGame = async (game: GameState): Promise<GameState | RuleViolation> => {
+  if (!firebaseInitialized || !database) {
+    return syncFailed;
+  }
+
+  try {
+    // An empty local cache makes the first attempt see null; the server then reruns it
+    const result = await runTransaction(ref(database, gamePath(generateGameId(game.companyName))), (current: GameState | null) => (
+      current ? undefined : game
+    ));
+    if (!result.committed) {
+      return { kind: 'RULE_VIOLATION', code: 'GAME_ALREADY_EXISTS', message: '이미 존재하는 회사명입니다.' };
+    }
+    updateIndexEntry(game);
+    return game;
+  } catch (error) {
+    console.error('Failed to add game to Firebase:', error);
+    return syncFailed;
+  }
+};
+
+// Compare-and-set on one room: `update` gets the latest stored state and its
+// result is committed only if nobody wrote the room in between (Firebase reruns
+// `update` on the newer state otherwise). A rule violation aborts the write and
+// is returned to the caller as-is.
+export const transactGame = async (
+  gameId: string,
+  update: (current: GameState) => GameState | RuleViolation
+): Promise<GameState | RuleViolation> => {
+  if (!firebaseInitialized || !database) {
+    return syncFailed;
+  }
+
+  let rejection = null as RuleViolation | null;
+  try {
+    const result = await runTransaction(ref(database, gamePath(gameId)), (current: GameState | null) => {
+      rejection = null;
+      // The first attempt may run on an empty local cache; Firebase retries with the stored room
+      if (!current) return current;
+      const next = update(current);
+      if (isRuleViolation(next)) {
+        rejection = next;
+        return undefined;
+      }
+      return next;
+    });
+    if (rejection) return rejection;
+
+    const game = result.snapshot.val() as GameState | null;
+    if (!result.committed || !game) {
+      return { kind: 'RULE_VIOLATION', code: 'GAME_NOT_FOUND', message: '게임을 찾을 수 없습니다. 삭제되었을 수 있습니다.' };
+    }
+    updateIndexEntry(game);
+    return game;
+  } catch (error) {
+    console.error('Failed to commit game transaction to Firebase:', error);
+    return syncFailed;
+  }
+};
+
+// Removes a room together with its lobby entry, chats and presence
+export const deleteGameData = async (gameId: string) => {
+  if (!firebaseInitialized || !database) {
+    console.warn('Firebase not initialized, skipping delete game');
     return;
   }
 
   try {
-    const gamesRef = ref(database, 'games');
-    await set(gamesRef, games || []);
+    await update(ref(database), {
+      [gamePath(gameId)]: null,
+      [`gameIndex/${gameId}`]: null,
+      [`chats/${gameId}`]: null,
+      [`presence/${gameId}`]: null
+    });
   } catch (error) {
-    console.error('Failed to save games to Firebase:', error);
+    console.error('Failed to delete game from Firebase:', error);
   }
 };
 
-export const getGames = async (): Promise<GameState[]> => {
+// Set once the legacy rooms are moved, so later loads skip reading every room
+const LEGACY_MIGRATION_MARKER = 'migrations/legacyGames';
+
+// Rooms saved by the old whole-array layout sit at games/0, games/1, ...;
+// moves each to games/<gameId> and gives it a lobby entry. Safe to run repeatedly.
+export const migrateLegacyGames = async () => {
   if (!firebaseInitialized || !database) {
-    return [];
+    return;
   }
 
   try {
-    const gamesRef = ref(database, 'games');
-    const snapshot = await get(gamesRef);
-    return toArray<GameState>(snapshot.val());
+    const marker = await get(ref(database, LEGACY_MIGRATION_MARKER));
+    if (marker.val()) return;
+
+    const snapshot = await get(ref(database, 'games'));
+    const games: Record<string, GameState | null> = snapshot.val() || {};
+    const updates: { [path: string]: unknown } = {};
+    // Paths already holding a room (or claimed by an earlier entry here) are
+    // never overwritten; a colliding legacy entry stays where it is
+    const taken = new Set(Object.keys(games));
+    Object.entries(games).forEach(([key, game]) => {
+      if (!game?.companyName) return;
+      const gameId = generateGameId(game.companyName);
+      if (key === gameId) return;
+      if (taken.has(gameId)) {
+        console.warn(`Skipped migrating legacy game ${key}: ${gamePath(gameId)} already exists`);
+        return;
+      }
+      taken.add(gameId);
+      updates[gamePath(key)] = null;
+      updates[gamePath(gameId)] = game;
+      updates[`gameIndex/${gameId}`] = buildGameIndexEntry(game);
+    });
+    updates[LEGACY_MIGRATION_MARKER] = new Date().toISOString();
+    await update(ref(database), updates);
+    if (Object.keys(updates).length > 1) console.log('Migrated legacy games to per-game paths');
   } catch (error) {
-    console.error('Failed to get games from Firebase:', error);
-    return [];
+    console.error('Failed to migrate legacy games:', error);
+  }
+};
+
+// --- PRESENCE ---
+// presence/<gameId>/<playerId> exists while that player's app is connected;
+// the server removes it by itself when the connection drops
+export const trackPresence = (gameId: string, playerId: string) => {
+  if (!firebaseInitialized || !database) {
+    return () => {};
+  }
+
+  const db = database;
+  const presenceRef = ref(db, `presence/${gameId}/${playerId}`);
+  const unsubscribe = onValue(ref(db, '.info/connected'), (snapshot) => {
+    if (snapshot.val() !== true) return;
+    onDisconnect(presenceRef).remove()
+      .then(() => set(presenceRef, true))
+      .catch(error => console.error('Failed to register presence:', error));
+  });
+
+  return () => {
+    unsubscribe();
+    set(presenceRef, null).catch(error => console.error('Failed to clear presence:', error));
+  };
+};
+
+export const subscribeToPresence = (gameId: string, callback: (onlinePlayerIds: string[]) => void) => {
+  if (!firebaseInitialized || !database) {
+    return () => {};
+  }
+
+  try {
+    return onValue(ref(database, `presence/${gameId}`), (snapshot) => {
+      callback(Object.keys(snapshot.val() || {}));
+    }, (error) => {
+      console.error('Error subscribing to presence:', error);
+    });
+  } catch (error) {
+    console.error('Error setting up presence subscription:', error);
+    return () => {};
+  }
+};
+
+// --- TEAM CHAT ---
+// chats/<gameId>/<teamNumber>/<messageId>. Kept outside `games` so the messages
+// don't travel with the game state every client downloads; players subscribe to
+// their own team's node, the host to the whole game. That split is the UI's
+// only: without sign-in there are no database rules to keep a client out of
+// another team's node, so these chats are not private (see README).
+const sortBySentAt = (messages: ChatMessage[]) => [...messages].sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+
+export const subscribeToTeamChat = (gameId: string, teamNumber: number, callback: (messages: ChatMessage[]) => void) => {
+  if (!firebaseInitialized || !database) {
+    callback([]);
+    return () => {};
+  }
+
+  try {
+    return onValue(ref(database, `chats/${gameId}/${teamNumber}`), (snapshot) => {
+      callback(sortBySentAt(toArray<ChatMessage>(snapshot.val())));
+    }, (error) => {
+      console.error('Error subscribing to team chat:', error);
+      callback([]);
+    });
+  } catch (error) {
+    console.error('Error setting up team chat subscription:', error);
+    callback([]);
+    return () => {};
+  }
+};
+
+export const subscribeToGameChats = (gameId: string, callback: (chats: TeamChatLog) => void) => {
+  if (!firebaseInitialized || !database) {
+    callback({});
+    return () => {};
+  }
+
+  try {
+    return onValue(ref(database, `chats/${gameId}`), (snapshot) => {
+      const chats: TeamChatLog = {};
+      Object.entries(snapshot.val() || {}).forEach(([teamNumber, messages]) => {
+        chats[teamNumber] = sortBySentAt(toArray<ChatMessage>(messages));
+      });
+      callback(chats);
+    }, (error) => {
+      console.error('Error subscribing to game chats:', error);
+      callback({});
+    });
+  } catch (error) {
+    console.error('Error setting up game chats subscription:', error);
+    callback({});
+    return () => {};
+  }
+};
+
+export const sendChatMessage = async (gameId: string, teamNumber: number, message: ChatMessage) => {
+  if (!firebaseInitialized || !database) {
+    console.warn('Firebase not initialized, skipping send chat message');
+    return;
+  }
+
+  try {
+    await set(ref(database, `chats/${gameId}/${teamNumber}/${message.id}`), message);
+  } catch (error) {
+    console.error('Failed to send chat message:', error);
   }
 };
 
@@ -131,15 +393,14 @@ export const subscribeToMembers = (callback: (members: Member[]) => void) => {
   }
 };
 
-export const saveMembers = async (members: Member[]) => {
+export const transactMembers = async (update: (current: Member[]) => Member[]) => {
   if (!firebaseInitialized || !database) {
     console.warn('Firebase not initialized, skipping save members');
     return;
   }
 
   try {
-    const membersRef = ref(database, 'members');
-    await set(membersRef, members || []);
+    await runTransaction(ref(database, 'members'), (current) => update(toArray<Member>(current)));
   } catch (error) {
     console.error('Failed to save members to Firebase:', error);
   }
@@ -190,15 +451,14 @@ export const subscribeToLogs = (callback: (logs: AccessLog[]) => void) => {
   }
 };
 
-export const saveLogs = async (logs: AccessLog[]) => {
+export const transactLogs = async (update: (current: AccessLog[]) => AccessLog[]) => {
   if (!firebaseInitialized || !database) {
     console.warn('Firebase not initialized, skipping save logs');
     return;
   }
 
   try {
-    const logsRef = ref(database, 'logs');
-    await set(logsRef, logs || []);
+    await runTransaction(ref(database, 'logs'), (current) => update(toArray<AccessLog>(current)));
   } catch (error) {
     console.error('Failed to save logs to Firebase:', error);
   }
@@ -220,3 +480,35 @@ export const getLogs = async (): Promise<AccessLog[]> => {
 };
 
 export { database };
+
+// --- REPOSITORY ---
+// Rules run in the browser here; Firebase only guarantees the compare-and-set
+export const createFirebaseRepository = (): GameRepository => {
+  // Rooms still in the old whole-array layout show up in the index once moved;
+  // after the first run this costs one read of the marker
+  migrateLegacyGames();
+  return {
+    subscribeToGameIndex,
+    subscribeToGame,
+    getGameIndex,
+    getGame,
+    createGame: async (options) => {
+      const game = createGame(options);
+      return isRuleViolation(game) ? game : addGame(game);
+    },
+    dispatchAction: (gameId, action, base) => transactGame(gameId, current => applyAtVersion(current, action, base)),
+    deleteGame: deleteGameData,
+    subscribeToMembers,
+    getMembers,
+    transactMembers,
+    claimAdmin: async () => true,
+    subscribeToLogs,
+    getLogs,
+    appendLog: (log) => transactLogs(prev => [...prev, log]),
+    subscribeToTeamChat,
+    subscribeToGameChats,
+    sendChatMessage,
+    trackPresence,
+    subscribeToPresence
+  };
+};
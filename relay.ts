@@ -0,0 +1,249 @@
+import { GameState, GameIndexEntry, GameRepository, Member, AccessLog, ChatMessage, TeamChatLog, RuleViolation, RelayRequest, RelayMessage, Unsubscribe } from './types';
+import { isRuleViolation } from './engine';
+
+// ==========================================
+// RELAY CLIENT
+// ==========================================
+// GameRepository backed by the self-hosted relay server (server/relayServer.ts)
+// over one WebSocket. Subscriptions and presence survive reconnects; every write
+// is a compare-and-set on the topic's revision, retried on the latest value when
+// someone else got there first, like a Firebase transaction. Rooms are the
+// exception: they are only sent as intents, and the server applies the rules.
+
+const RECONNECT_MIN_DELAY = 500;
+const RECONNECT_MAX_DELAY = 10000;
+const MAX_TRANSACTION_ATTEMPTS = 25;
+const CLIENT_KEY_STORAGE_KEY = 'collective_intelligence_relay_key';
+
+interface TopicValue {
+  value: unknown;
+  revision: number;
+}
+
+type RelayReply = Extract<RelayMessage, { type: 'reply' }>;
+type RelayRequestBody = RelayRequest extends infer R ? (R extends RelayRequest ? Omit<R, 'id'> : never) : never;
+
+const syncFailed: RuleViolation = {
+  kind: 'RULE_VIOLATION',
+  code: 'SYNC_FAILED',
+  message: '서버에 저장하지 못했습니다. 네트워크 연결을 확인해주세요.'
+};
+
+const toArray = <T>(data: unknown): T[] => {
+  if (!data) return [];
+  if (Array.isArray(data)) return data;
+  if (typeof data === 'object') return Object.values(data as object);
+  return [];
+};
+
+// Private to this browser and kept across reloads, so a player keeps their seat.
+// getRandomValues also works on a plain-http LAN address, unlike randomUUID.
+const getClientKey = (): string => {
+  const bytes = crypto.getRandomValues(new Uint8Array(16));
+  const fresh = Array.from(bytes, b => b.toString(16).padStart(2, '0')).join('');
+  try {
+    const stored = localStorage.getItem(CLIENT_KEY_STORAGE_KEY);
+    if (stored) return stored;
+    localStorage.setItem(CLIENT_KEY_STORAGE_KEY, fresh);
+  } catch (e) {
+    // Blocked storage: the seat lasts as long as this page
+  }
+  return fresh;
+};
+
+const sortBySentAt = (messages: ChatMessage[]) => [...messages].sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+
+export const createRelayRepository = (url: string): GameRepository => {
+  const clientKey = getClientKey();
+  let socket: WebSocket | null = null;
+  let reconnectDelay = RECONNECT_MIN_DELAY;
+  let nextRequestId = 1;
+  let serverBootId: string | null = null;
+
+  const pending = new Map<number, (reply: RelayReply) => void>();
+  const outbox: RelayRequest[] = []; // requests made while disconnected
+  const listeners = new Map<string, Set<(value: unknown) => void>>();
+  const cache = new Map<string, TopicValue>(); // latest value of each subscribed topic
+  const announcedPresence = new Map<string, { gameId: string; playerId: string }>();
+
+  const isOpen = () => socket !== null && socket.readyState === WebSocket.OPEN;
+
+  const transmit = (request: RelayRequest) => {
+    if (isOpen()) socket!.send(JSON.stringify(request));
+    else outbox.push(request);
+  };
+
+  // Fire-and-forget requests (subscriptions, presence) are resent on reconnect, so they skip the outbox
+  const sendIfOpen = (body: RelayRequestBody) => {
+    if (isOpen()) socket!.send(JSON.stringify({ ...body, id: nextRequestId++ }));
+  };
+
+  const request = (body: RelayRequestBody): Promise<RelayReply> => new Promise(resolve => {
+    const id = nextRequestId++;
+    pending.set(id, resolve);
+    transmit({ ...body, id } as RelayRequest);
+  });
+
+  const handleMessage = (message: RelayMessage) => {
+    if (message.type === 'welcome') {
+      // A restarted server may count revisions from scratch; trust its values again
+      if (serverBootId !== null && serverBootId !== message.bootId) cache.clear();
+      serverBootId = message.bootId;
+      return;
+    }
+    if (message.type === 'value') {
+      const cached = cache.get(message.topic);
+      if (!listeners.has(message.topic) || (cached && cached.revision > message.revision)) return;
+      cache.set(message.topic, { value: message.value, revision: message.revision });
+      listeners.get(message.topic)!.forEach(listener => listener(message.value));
+      return;
+    }
+    const resolve = pending.get(message.id);
+    pending.delete(message.id);
+    resolve?.(message);
+  };
+
+  const connect = () => {
+    socket = new WebSocket(url);
+
+    socket.onopen = () => {
+      reconnectDelay = RECONNECT_MIN_DELAY;
+      sendIfOpen({ type: 'hello', clientKey });
+      listeners.forEach((_topicListeners, topic) => sendIfOpen({ type: 'subscribe', topic }));
+      announcedPresence.forEach(({ gameId, playerId }) => sendIfOpen({ type: 'presence', gameId, playerId, online: true }));
+      outbox.splice(0).forEach(transmit);
+    };
+
+    socket.onmessage = (event: MessageEvent) => {
+      try {
+        handleMessage(JSON.parse(event.data));
+      } catch (error) {
+        console.error('Failed to handle relay message:', error);
+      }
+    };
+
+    socket.onclose = () => {
+      // Sent requests may or may not have landed; their callers report SYNC_FAILED.
+      // Queued ones were never sent, so they stay pending until the reconnect sends them.
+      const queued = new Set(outbox.map(r => r.id));
+      pending.forEach((resolve, id) => {
+        if (queued.has(id)) return;
+        pending.delete(id);
+        resolve({ type: 'reply', id, ok: false, error: 'DISCONNECTED', message: 'Connection lost' });
+      });
+      console.warn(`Relay connection lost, reconnecting in ${reconnectDelay}ms`);
+      setTimeout(connect, reconnectDelay);
+      reconnectDelay = Math.min(reconnectDelay * 2, RECONNECT_MAX_DELAY);
+    };
+
+    socket.onerror = () => socket?.close();
+  };
+
+  connect();
+
+  const subscribe = (topic: string, listener: (value: unknown) => void): Unsubscribe => {
+    if (!listeners.has(topic)) {
+      listeners.set(topic, new Set());
+      sendIfOpen({ type: 'subscribe', topic });
+    }
+    listeners.get(topic)!.add(listener);
+    if (cache.has(topic)) listener(cache.get(topic)!.value);
+    return () => {
+      const topicListeners = listeners.get(topic);
+      topicListeners?.delete(listener);
+      if (topicListeners && topicListeners.size === 0) {
+        listeners.delete(topic);
+        cache.delete(topic);
+        sendIfOpen({ type: 'unsubscribe', topic });
+      }
+    };
+  };
+
+  const read = async (topic: string): Promise<TopicValue | null> => {
+    if (cache.has(topic)) return cache.get(topic)!;
+    const reply = await request({ type: 'get', topic });
+    return reply.ok ? { value: reply.value ?? null, revision: reply.revision ?? 0 } : null;
+  };
+
+  // Puts update(latest) until it lands on the revision it was computed from
+  const transact = async <T>(topic: string, update: (current: T | null) => T | null | RuleViolation): Promise<T | null | RuleViolation> => {
+    let current = await read(topic);
+    for (let attempt = 0; current && attempt < MAX_TRANSACTION_ATTEMPTS; attempt++) {
+      const next = update(current.value as T | null);
+      if (isRuleViolation(next)) return next;
+      const reply = await request({ type: 'put', topic, value: next, baseRevision: current.revision });
+      if (reply.ok) return next;
+      if (reply.error !== 'CONFLICT') break;
+      current = { value: reply.value ?? null, revision: reply.revision ?? 0 };
+    }
+    console.error(`Failed to commit ${topic} to the relay`);
+    return syncFailed;
+  };
+
+  const getValue = async (topic: string) => (await read(topic))?.value ?? null;
+
+  // The server's verdict on a room intent: the new state or the rule it broke
+  const toGameResult = (reply: RelayReply): GameState | RuleViolation => {
+    if (reply.ok) return reply.value as GameState;
+    if (reply.error === 'RULE_VIOLATION' && reply.violation) return reply.violation;
+    console.error('Relay rejected the request:', reply.message);
+    return syncFailed;
+  };
+
+  return {
+    subscribeToGameIndex: (callback) => subscribe('gameIndex', value => callback(toArray<GameIndexEntry>(value))),
+    subscribeToGame: (gameId, callback) => subscribe(`games/${gameId}`, value => callback((value as GameState | null) ?? null)),
+    getGameIndex: async () => toArray<GameIndexEntry>(await getValue('gameIndex')),
+    getGame: async (gameId) => (await getValue(`games/${gameId}`)) as GameState | null,
+
+    createGame: async (options) => toGameResult(await request({ type: 'createGame', options })),
+    dispatchAction: async (gameId, action, base) => toGameResult(await request({ type: 'action', gameId, action, base })),
+
+    deleteGame: async (gameId) => {
+      const reply = await request({ type: 'deleteGame', gameId });
+      if (!reply.ok) console.error('Failed to delete game on the relay:', reply.message);
+    },
+
+    subscribeToMembers: (callback) => subscribe('members', value => callback(toArray<Member>(value))),
+    getMembers: async () => toArray<Member>(await getValue('members')),
+    transactMembers: async (update) => {
+      await transact<Member[]>('members', current => update(toArray<Member>(current)));
+    },
+    claimAdmin: async (password) => (await request({ type: 'claimAdmin', password })).ok,
+    subscribeToLogs: (callback) => subscribe('logs', value => callback(toArray<AccessLog>(value))),
+    getLogs: async () => toArray<AccessLog>(await getValue('logs')),
+    appendLog: async (log) => {
+      const reply = await request({ type: 'appendLog', log });
+      if (!reply.ok) console.error('Failed to append log to the relay:', reply.message);
+    },
+
+    // The relay only lets a team's players (and the host) subscribe to its channel
+    subscribeToTeamChat: (gameId, teamNumber, callback) => subscribe(`chats/${gameId}/${teamNumber}`, value => {
+      callback(sortBySentAt(toArray<ChatMessage>(value)));
+    }),
+    subscribeToGameChats: (gameId, callback) => subscribe(`chats/${gameId}`, value => {
+      const chats: TeamChatLog = {};
+      Object.entries((value || {}) as TeamChatLog).forEach(([teamNumber, messages]) => {
+        chats[teamNumber] = sortBySentAt(toArray<ChatMessage>(messages));
+      });
+      callback(chats);
+    }),
+    // Only the text travels; the server signs it with the sender's seat
+    sendChatMessage: async (gameId, teamNumber, message) => {
+      const reply = await request({ type: 'sendChat', gameId, teamNumber, text: message.text });
+      if (!reply.ok) console.error('Failed to send chat message to the relay:', reply.message);
+    },
+
+    // The relay drops a player's presence when their connection closes
+    trackPresence: (gameId, playerId) => {
+      const key = `${gameId}/${playerId}`;
+      announcedPresence.set(key, { gameId, playerId });
+      sendIfOpen({ type: 'presence', gameId, playerId, online: true });
+      return () => {
+        announcedPresence.delete(key);
+        sendIfOpen({ type: 'presence', gameId, playerId, online: false });
+      };
+    },
+    subscribeToPresence: (gameId, callback) => subscribe(`presence/${gameId}`, value => callback(toArray<string>(value)))
+  };
+};
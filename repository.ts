@@ -0,0 +1,36 @@
+import { GameRepository, StorageBackend } from './types';
+import { isFirebaseConfigured, createFirebaseRepository } from './firebase';
+import { createLocalStorageRepository, createMemoryRepository, StorageSeed } from './storage';
+import { createRelayRepository } from './relay';
+
+// ==========================================
+// STORAGE BACKEND SELECTION
+// ==========================================
+// STORAGE_BACKEND in .env.local picks `firebase`, `relay` (the self-hosted
+// server in server/, at RELAY_URL), `local` (this browser only, fully offline)
+// or `memory` (nothing persisted). Without it the app uses Firebase when
+// configured and localStorage otherwise.
+
+const STORAGE_BACKENDS: StorageBackend[] = ['firebase', 'relay', 'local', 'memory'];
+
+// By default the relay runs on the machine that serves the app
+const getRelayUrl = () => process.env.RELAY_URL || `ws://${window.location.hostname}:8787`;
+
+export const getStorageBackend = (): StorageBackend => {
+  const configured = process.env.STORAGE_BACKEND as StorageBackend | undefined;
+  if (configured && STORAGE_BACKENDS.includes(configured)) return configured;
+  return isFirebaseConfigured() ? 'firebase' : 'local';
+};
+
+export const createRepository = (backend: StorageBackend, seed: StorageSeed = {}): GameRepository => {
+  switch (backend) {
+    case 'firebase':
+      return createFirebaseRepository();
+    case 'relay':
+      return createRelayRepository(getRelayUrl());
+    case 'local':
+      return createLocalStorageRepository(seed);
+    case 'memory':
+      return createMemoryRepository(seed);
+  }
+};
@@ -0,0 +1,626 @@
+import { createServer } from 'node:http';
+import { existsSync, readFileSync, writeFileSync, renameSync } from 'node:fs';
+import { randomUUID } from 'node:crypto';
+import { GameState, GameAction, CreateGameOptions, RuleViolation, RelayRequest, RelayMessage, ChatMessage, TeamChatLog } from '../types';
+import { generateGameId, generateMessageId, buildGameIndexEntry, MAX_CHAT_MESSAGE_LENGTH } from '../utils';
+import { createGame, applyAtVersion, isRuleViolation, GAME_RETENTION_HOURS } from '../engine';
+import { acceptWebSocket, WebSocketConnection } from './websocket';
+
+// ==========================================
+// SELF-HOSTED RELAY SERVER
+// ==========================================
+// Holds every room, the member list, access logs and chats in memory and
+// pushes each change to the browsers subscribed to it (see RELAY TYPES in
+// types.ts for the protocol). Meant for venues whose network blocks Firebase:
+// the facilitator runs `npm run relay` on a laptop and the players' browsers
+// connect to it over the LAN.
+//
+// Rooms are authoritative here: browsers send intents, the server runs them
+// through the rules engine and stores the result. Each browser says hello with
+// a private key; host actions count only from the browser that created the
+// room, team actions only from the browser that joined as that player.
+//
+//   RELAY_PORT       port to listen on (default 8787)
+//   RELAY_DATA_FILE  JSON file to load on start and save changes to; without
+//                    it everything is forgotten when the server stops
+//   RELAY_ADMIN_PASSWORD  admin password that lets a browser edit the member
+//                    list; without it only browsers that created a room can
+
+const PORT = Number(process.env.RELAY_PORT) || 8787;
+const DATA_FILE = process.env.RELAY_DATA_FILE || '';
+const ADMIN_PASSWORD = process.env.RELAY_ADMIN_PASSWORD || '';
+const HEARTBEAT_INTERVAL = 30000; // connections that miss a pong in between are dropped
+const DISCONNECT_GRACE = 15000; // same grace the browsers give a dropped player before handing over
+const SAVE_DELAY = 1000; // a burst of writes becomes one file write
+const BOOT_ID = randomUUID();
+
+interface StoredValue {
+  value: unknown;
+  revision: number;
+}
+
+// Each browser's one seat in a room, by its private key
+type Seats = { [clientKey: string]: { playerId: string; teamIndex: number } };
+
+interface PersistedData {
+  revision: number;
+  values: { [topic: string]: StoredValue };
+}
+
+// A deleted topic stays as a null tombstone at its deletion revision, so
+// subscribers see the deletion as newer than what they hold
+const store = new Map<string, StoredValue>();
+let lastRevision = 0;
+
+const subscribers = new Map<string, Set<WebSocketConnection>>();
+// The private key each connection said hello with
+const clientKeys = new Map<WebSocketConnection, string>();
+// `${gameId}/${playerId}` announced by each open connection
+const presenceByConnection = new Map<WebSocketConnection, Set<string>>();
+
+// --- TOPICS ---
+
+const gameIdOf = (topic: string) => topic.slice(topic.indexOf('/') + 1);
+
+const isStoredTopic = (topic: string) => /^((games|seats|hosts)\/[^/]+|chats\/[^/]+\/\d+|members|logs|admins)$/.test(topic);
+
+const teamChatTopic = (gameId: string, teamNumber: number) => `chats/${gameId}/${teamNumber}`;
+
+const getGames = (): GameState[] => [...store.entries()]
+  .filter(([topic, stored]) => topic.startsWith('games/') && stored.value !== null)
+  .map(([, stored]) => stored.value as GameState);
+
+const getOnlinePlayerIds = (gameId: string): string[] => {
+  const online = new Set<string>();
+  presenceByConnection.forEach(keys => keys.forEach(key => {
+    if (key.startsWith(`${gameId}/`)) online.add(key.slice(gameId.length + 1));
+  }));
+  return [...online];
+};
+
+// Every team channel of a room, as stored under chats/<gameId>/<teamNumber>
+const getGameChats = (gameId: string): TeamChatLog => {
+  const chats: TeamChatLog = {};
+  store.forEach((stored, topic) => {
+    if (topic.startsWith(`chats/${gameId}/`) && Array.isArray(stored.value)) {
+      chats[topic.slice(`chats/${gameId}/`.length)] = stored.value as ChatMessage[];
+    }
+  });
+  return chats;
+};
+
+// gameIndex, presence/<gameId> and chats/<gameId> are derived on every read and never stored
+const read = (topic: string): StoredValue => {
+  if (topic === 'gameIndex') return { value: getGames().map(buildGameIndexEntry), revision: lastRevision };
+  if (/^chats\/[^/]+$/.test(topic)) return { value: getGameChats(gameIdOf(topic)), revision: lastRevision };
+  if (topic.startsWith('presence/')) return { value: getOnlinePlayerIds(gameIdOf(topic)), revision: lastRevision };
+  return store.get(topic) || { value: null, revision: 0 };
+};
+
+const send = (connection: WebSocketConnection, message: RelayMessage) => {
+  connection.send(JSON.stringify(message));
+};
+
+const publish = (topic: string) => {
+  const connections = subscribers.get(topic);
+  if (!connections || connections.size === 0) return;
+  const { value, revision } = read(topic);
+  connections.forEach(connection => {
+    // Access can change after subscribing (a seat moves, a browser takes a seat)
+    const clientKey = clientKeys.get(connection) || '';
+    if (!isReadableTopic(topic, clientKey)) return;
+    send(connection, { type: 'value', topic, value: viewFor(topic, value, clientKey), revision });
+  });
+};
+
+// --- PERSISTENCE ---
+
+let saveTimer: ReturnType<typeof setTimeout> | null = null;
+
+const loadData = () => {
+  if (!DATA_FILE || !existsSync(DATA_FILE)) return;
+  try {
+    const data = JSON.parse(readFileSync(DATA_FILE, 'utf8')) as PersistedData;
+    Object.entries(data.values || {}).forEach(([topic, stored]) => {
+      if (isStoredTopic(topic)) store.set(topic, stored);
+    });
+    lastRevision = Math.max(data.revision || 0, ...[...store.values()].map(s => s.revision));
+    console.log(`Loaded ${store.size} topics from ${DATA_FILE}`);
+  } catch (error) {
+    console.error(`Failed to load ${DATA_FILE}, starting empty:`, error);
+  }
+};
+
+const saveData = () => {
+  saveTimer = null;
+  const data: PersistedData = { revision: lastRevision, values: Object.fromEntries(store) };
+  try {
+    // Written aside and renamed so a crash mid-write never leaves half a file
+    writeFileSync(`${DATA_FILE}.tmp`, JSON.stringify(data));
+    renameSync(`${DATA_FILE}.tmp`, DATA_FILE);
+  } catch (error) {
+    console.error(`Failed to save ${DATA_FILE}:`, error);
+  }
+};
+
+const scheduleSave = () => {
+  if (DATA_FILE && !saveTimer) saveTimer = setTimeout(saveData, SAVE_DELAY);
+};
+
+// --- WRITES ---
+
+const writeTopic = (topic: string, value: unknown): number => {
+  lastRevision += 1;
+  store.set(topic, { value, revision: lastRevision });
+  scheduleSave();
+  publish(topic);
+  if (topic.startsWith('games/')) publish('gameIndex');
+  if (topic.startsWith('chats/')) publish(topic.slice(0, topic.lastIndexOf('/')));
+  return lastRevision;
+};
+
+const setPresence = (connection: WebSocketConnection, gameId: string, playerId: string, online: boolean) => {
+  const keys = presenceByConnection.get(connection) || new Set<string>();
+  if (online) keys.add(`${gameId}/${playerId}`);
+  else keys.delete(`${gameId}/${playerId}`);
+  presenceByConnection.set(connection, keys);
+  publish(`presence/${gameId}`);
+};
+
+// --- RULES ---
+
+const getSeats = (gameId: string): Seats => (read(`seats/${gameId}`).value || {}) as Seats;
+
+const ruleViolation = (code: RuleViolation['code'], message: string): RuleViolation => ({ kind: 'RULE_VIOLATION', code, message });
+
+const seatMismatch = ruleViolation('SEAT_MISMATCH', '자신의 팀 자리에서만 할 수 있습니다.');
+const hostOnly = ruleViolation('HOST_ONLY', '이 게임을 만든 진행자만 할 수 있습니다.');
+
+const isHost = (gameId: string, clientKey: string) => !!clientKey && read(`hosts/${gameId}`).value === clientKey;
+
+const getSeat = (gameId: string, clientKey: string) => (clientKey ? getSeats(gameId)[clientKey] : undefined);
+
+const isAdmin = (clientKey: string) => {
+  const admins = read('admins').value;
+  return !!clientKey && Array.isArray(admins) && admins.includes(clientKey);
+};
+
+// A browser that created any room, or holds a seat in any, on this relay
+const hostsAnyRoom = (clientKey: string) => !!clientKey && [...store.entries()]
+  .some(([topic, stored]) => topic.startsWith('hosts/') && stored.value === clientKey);
+const isSeatedAnywhere = (clientKey: string) => !!clientKey && [...store.entries()]
+  .some(([topic, stored]) => topic.startsWith('seats/') && !!(stored.value as Seats | null)?.[clientKey]);
+
+// The member list holds contact details: admins and room creators manage it,
+// and players' browsers never receive it
+const canManageMembers = (clientKey: string) => isAdmin(clientKey) || hostsAnyRoom(clientKey);
+
+// Rooms only change through createGame and action requests, chats through
+// sendChat and logs through appendLog
+const isWritableTopic = (topic: string, clientKey: string) => topic === 'members' && canManageMembers(clientKey);
+
+// Seats and hosts hold browsers' keys, so they never leave the server; a team
+// channel is open to that team's players and the host, the whole room's chat to the host
+const isReadableTopic = (topic: string, clientKey: string): boolean => {
+  if (topic.startsWith('seats/') || topic.startsWith('hosts/') || topic === 'admins') return false;
+  if (topic === 'members') return canManageMembers(clientKey) || !isSeatedAnywhere(clientKey);
+  const teamChat = topic.match(/^chats\/([^/]+)\/(\d+)$/);
+  if (teamChat) {
+    const [, gameId, teamNumber] = teamChat;
+    return isHost(gameId, clientKey) || getSeat(gameId, clientKey)?.teamIndex === Number(teamNumber) - 1;
+  }
+  if (topic.startsWith('chats/')) return isHost(gameIdOf(topic), clientKey);
+  return true;
+};
+
+// The shuffled board and its seed give away every number still to come, so
+// only the host sees them until the game is over
+const hideBoard = (game: GameState): GameState => {
+  if (game.gameEnded) return game;
+  const { randomBoardNumbers, seed, ...rest } = game;
+  return rest;
+};
+
+const viewFor = (topic: string, value: unknown, clientKey: string): unknown => {
+  if (!value || !/^games\/[^/]+$/.test(topic) || isHost(gameIdOf(topic), clientKey)) return value;
+  return hideBoard(value as GameState);
+};
+
+// Team actions must come from the browser holding the acting player's seat
+// (a team's placement from any of its players), everything that steers the
+// room from the host's browser. Joining, and the timeouts the engine checks
+// against the server's clock, are open to anyone.
+const checkPermission = (gameId: string, action: GameAction, clientKey: string): RuleViolation | null => {
+  const seats = getSeats(gameId);
+  const seat = getSeat(gameId, clientKey);
+  const inTeam = (teamIndex: number) => !!seat && seat.teamIndex === teamIndex;
+  const isPlayer = (playerId: string, teamIndex: number) => inTeam(teamIndex) && seat!.playerId === playerId;
+
+  switch (action.type) {
+    // Joining again (in the lobby) moves the browser's seat; a player id seated elsewhere can't be taken
+    case 'JOIN_TEAM':
+      return Object.entries(seats).some(([key, other]) => key !== clientKey && other.playerId === action.player?.id) ? seatMismatch : null;
+    case 'PLACE_NUMBER':
+      return inTeam(action.teamIndex) ? null : seatMismatch;
+    case 'PROPOSE_CELL':
+    case 'CONFIRM_PLACEMENT':
+      return isPlayer(action.playerId, action.teamIndex) ? null : seatMismatch;
+    case 'VOTE_CAPTAIN':
+      return isPlayer(action.voterId, action.teamIndex) ? null : seatMismatch;
+    // The server marks players from their sockets (see syncPlayerConnection);
+    // a browser may only report on its own player
+    case 'SET_PLAYER_CONNECTION':
+      return isPlayer(action.playerId, action.teamIndex) ? null : seatMismatch;
+    case 'RESOLVE_TIMEOUT':
+    case 'EXPIRE_GAME':
+      return null;
+    default:
+      return isHost(gameId, clientKey) ? null : hostOnly;
+  }
+};
+
+// Browsers' clocks can't be trusted (a future `now` would force a timeout or
+// expire a room), so every time an action carries is the server's
+const stampAction = (action: GameAction): GameAction => {
+  const now = new Date().toISOString();
+  switch (action.type) {
+    case 'PAUSE_TIMER':
+    case 'RESUME_TIMER':
+    case 'RESOLVE_TIMEOUT':
+    case 'PAUSE_GAME':
+    case 'RESUME_GAME':
+    case 'EXPIRE_GAME':
+      return { ...action, now };
+    case 'SUBMIT_NUMBER':
+      return { ...action, startedAt: now };
+    case 'PROPOSE_CELL':
+      return { ...action, proposedAt: now };
+    default:
+      return action;
+  }
+};
+
+// Who acted comes from the sender's seat, not from the message: a browser
+// joining again replaces its earlier player, and a placement is signed with
+// the seated player's name
+const bindActionToSeat = (gameId: string, game: GameState, action: GameAction, clientKey: string): GameAction => {
+  const seat = getSeat(gameId, clientKey);
+  switch (action.type) {
+    case 'JOIN_TEAM':
+      return { ...action, replacesPlayerId: seat?.playerId };
+    case 'PLACE_NUMBER': {
+      const team = (Array.isArray(game.teams) ? game.teams : [])[action.teamIndex];
+      const player = (Array.isArray(team?.players) ? team.players : []).find(p => p.id === seat?.playerId);
+      return { ...action, playerName: player?.name ?? null };
+    }
+    default:
+      return action;
+  }
+};
+
+// The creating browser becomes the room's host; expiry runs on the server's clock
+const handleCreateGame = (options: CreateGameOptions, clientKey: string): GameState | RuleViolation => {
+  const game = createGame({ ...options, createdAt: new Date().toISOString() });
+  if (isRuleViolation(game)) return game;
+  const gameId = generateGameId(game.companyName);
+  if (read(`games/${gameId}`).value !== null) return ruleViolation('GAME_ALREADY_EXISTS', '이미 존재하는 회사명입니다.');
+  writeTopic(`hosts/${gameId}`, clientKey);
+  writeTopic(`games/${gameId}`, game);
+  return game;
+};
+
+const handleAction = (request: Extract<RelayRequest, { type: 'action' }>, clientKey: string): GameState | RuleViolation => {
+  const { gameId, action, base } = request;
+  const stored = read(`games/${gameId}`);
+  if (stored.value === null) return ruleViolation('GAME_NOT_FOUND', '게임을 찾을 수 없습니다. 삭제되었을 수 있습니다.');
+
+  const problem = checkPermission(gameId, action, clientKey);
+  if (problem) return problem;
+  const game = stored.value as GameState;
+  const next = applyAtVersion(game, stampAction(bindActionToSeat(gameId, game, action, clientKey)), base);
+  if (isRuleViolation(next)) return next;
+
+  writeTopic(`games/${gameId}`, next);
+  if (action.type === 'JOIN_TEAM') {
+    writeTopic(`seats/${gameId}`, { ...getSeats(gameId), [clientKey]: { playerId: action.player.id, teamIndex: action.teamIndex } });
+  }
+  return next;
+};
+
+// --- PRESENCE ---
+// The server sees which sockets are open, so it marks players connected or
+// (after the grace period) disconnected itself, like the browsers do on Firebase
+
+const disconnectTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+const setPlayerConnection = (gameId: string, playerId: string, connected: boolean) => {
+  const game = read(`games/${gameId}`).value as GameState | null;
+  if (!game) return;
+  const teamIndex = (Array.isArray(game.teams) ? game.teams : [])
+    .findIndex(t => (Array.isArray(t.players) ? t.players : []).some(p => p.id === playerId));
+  if (teamIndex === -1) return;
+  const next = applyAtVersion(game, { type: 'SET_PLAYER_CONNECTION', teamIndex, playerId, connected });
+  if (!isRuleViolation(next) && next !== game) writeTopic(`games/${gameId}`, next);
+};
+
+const syncPlayerConnection = (gameId: string, playerId: string) => {
+  const key = `${gameId}/${playerId}`;
+  clearTimeout(disconnectTimers.get(key));
+  disconnectTimers.delete(key);
+  if (getOnlinePlayerIds(gameId).includes(playerId)) {
+    setPlayerConnection(gameId, playerId, true);
+    return;
+  }
+  disconnectTimers.set(key, setTimeout(() => {
+    disconnectTimers.delete(key);
+    if (!getOnlinePlayerIds(gameId).includes(playerId)) setPlayerConnection(gameId, playerId, false);
+  }, DISCONNECT_GRACE));
+};
+
+// --- REQUESTS ---
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Checks the fields each request type relies on, so a malformed message is
+// answered with BAD_REQUEST instead of reaching the handlers
+const isWellFormedRequest = (request: unknown): request is RelayRequest => {
+  if (!isObject(request) || typeof request.id !== 'number' || typeof request.type !== 'string') return false;
+  switch (request.type) {
+    case 'subscribe':
+    case 'unsubscribe':
+    case 'get':
+      return typeof request.topic === 'string';
+    case 'put':
+      return typeof request.topic === 'string' && typeof request.baseRevision === 'number' && 'value' in request;
+    case 'createGame':
+      return isObject(request.options);
+    case 'action':
+      return typeof request.gameId === 'string' && isObject(request.action) && typeof request.action.type === 'string'
+        && (request.base === undefined || isObject(request.base));
+    case 'sendChat':
+      return typeof request.gameId === 'string' && typeof request.teamNumber === 'number' && typeof request.text === 'string';
+    case 'appendLog':
+      return isObject(request.log) && typeof request.log.id === 'string' && typeof request.log.type === 'string';
+    case 'claimAdmin':
+      return typeof request.password === 'string';
+    case 'hello':
+      return typeof request.clientKey === 'string' && request.clientKey.length > 0;
+    case 'deleteGame':
+      return typeof request.gameId === 'string';
+    case 'presence':
+      return typeof request.gameId === 'string' && typeof request.playerId === 'string' && typeof request.online === 'boolean';
+    default:
+      return false;
+  }
+};
+
+// Players write only to their own team's channel, under their seat's name
+const handleSendChat = (request: Extract<RelayRequest, { type: 'sendChat' }>, clientKey: string): RuleViolation | null => {
+  const { gameId, teamNumber } = request;
+  const game = read(`games/${gameId}`).value as GameState | null;
+  if (!game) return ruleViolation('GAME_NOT_FOUND', '게임을 찾을 수 없습니다. 삭제되었을 수 있습니다.');
+  const seat = getSeat(gameId, clientKey);
+  if (!seat || seat.teamIndex !== teamNumber - 1) return seatMismatch;
+  const team = (Array.isArray(game.teams) ? game.teams : [])[seat.teamIndex];
+  const sender = (Array.isArray(team?.players) ? team.players : []).find(p => p.id === seat.playerId);
+  const text = request.text.trim().slice(0, MAX_CHAT_MESSAGE_LENGTH);
+  if (!sender || !text) return seatMismatch;
+
+  const message: ChatMessage = {
+    id: generateMessageId(),
+    playerId: sender.id,
+    playerName: sender.name,
+    text,
+    sentAt: new Date().toISOString(),
+    round: game.currentRound
+  };
+  const topic = teamChatTopic(gameId, teamNumber);
+  const messages = read(topic).value;
+  writeTopic(topic, [...(Array.isArray(messages) ? messages : []), message]);
+  return null;
+};
+
+// The host may delete a room any time; anyone may clear one past retention
+const handleDeleteGame = (gameId: string, clientKey: string): RuleViolation | null => {
+  const game = read(`games/${gameId}`).value as GameState | null;
+  const hoursOpen = game ? (Date.now() - new Date(game.createdAt).getTime()) / (1000 * 60 * 60) : Infinity;
+  if (!isHost(gameId, clientKey) && !(hoursOpen >= GAME_RETENTION_HOURS)) return hostOnly;
+
+  [...store.keys()].filter(topic => topic.startsWith(`chats/${gameId}/`)).forEach(topic => writeTopic(topic, null));
+  ['games', 'seats', 'hosts'].forEach(kind => writeTopic(`${kind}/${gameId}`, null));
+  presenceByConnection.forEach(keys => keys.forEach(key => {
+    if (key.startsWith(`${gameId}/`)) keys.delete(key);
+  }));
+  publish(`presence/${gameId}`);
+  return null;
+};
+
+const handleRequest = (connection: WebSocketConnection, request: RelayRequest) => {
+  const clientKey = clientKeys.get(connection) || '';
+  const reply = (fields: { value?: unknown; revision?: number } = {}) =>
+    send(connection, { type: 'reply', id: request.id, ok: true, ...fields });
+  const badRequest = (message: string) =>
+    send(connection, { type: 'reply', id: request.id, ok: false, error: 'BAD_REQUEST', message });
+  const replyWithProblem = (problem: RuleViolation | null) => {
+    if (!problem) return reply();
+    send(connection, { type: 'reply', id: request.id, ok: false, error: 'RULE_VIOLATION', message: problem.message, violation: problem });
+  };
+  const replyWithGame = (result: GameState | RuleViolation) => {
+    if (isRuleViolation(result)) return replyWithProblem(result);
+    reply({ value: viewFor(`games/${generateGameId(result.companyName)}`, result, clientKey) });
+  };
+
+  switch (request.type) {
+    case 'subscribe': {
+      if (!isReadableTopic(request.topic, clientKey)) return badRequest(`${request.topic} is private`);
+      if (!subscribers.has(request.topic)) subscribers.set(request.topic, new Set());
+      subscribers.get(request.topic)!.add(connection);
+      reply();
+      const { value, revision } = read(request.topic);
+      send(connection, { type: 'value', topic: request.topic, value: viewFor(request.topic, value, clientKey), revision });
+      return;
+    }
+
+    case 'unsubscribe':
+      subscribers.get(request.topic)?.delete(connection);
+      reply();
+      return;
+
+    case 'get': {
+      if (!isReadableTopic(request.topic, clientKey)) return badRequest(`${request.topic} is private`);
+      const { value, revision } = read(request.topic);
+      reply({ value: viewFor(request.topic, value, clientKey), revision });
+      return;
+    }
+
+    case 'put': {
+      if (!isWritableTopic(request.topic, clientKey)) return badRequest(`${request.topic} is read-only`);
+      // Rejects values no client would write, so one broken tab can't wipe a list
+      if (!Array.isArray(request.value)) return badRequest(`Invalid value for ${request.topic}`);
+      const current = read(request.topic);
+      if (current.revision !== request.baseRevision) {
+        send(connection, {
+          type: 'reply', id: request.id, ok: false, error: 'CONFLICT',
+          message: `${request.topic} changed since revision ${request.baseRevision}`,
+          value: current.value, revision: current.revision
+        });
+        return;
+      }
+      reply({ value: request.value, revision: writeTopic(request.topic, request.value) });
+      return;
+    }
+
+    case 'hello':
+      clientKeys.set(connection, request.clientKey);
+      reply();
+      return;
+
+    case 'claimAdmin': {
+      if (!clientKey || !ADMIN_PASSWORD || request.password !== ADMIN_PASSWORD) return badRequest('Wrong admin password');
+      const admins = read('admins').value;
+      const known = Array.isArray(admins) ? admins : [];
+      if (!known.includes(clientKey)) writeTopic('admins', [...known, clientKey]);
+      reply();
+      return;
+    }
+
+    case 'createGame':
+      replyWithGame(handleCreateGame(request.options, clientKey));
+      return;
+
+    case 'action':
+      replyWithGame(handleAction(request, clientKey));
+      return;
+
+    case 'sendChat':
+      replyWithProblem(handleSendChat(request, clientKey));
+      return;
+
+    case 'appendLog': {
+      const logs = read('logs').value;
+      writeTopic('logs', [...(Array.isArray(logs) ? logs : []), request.log]);
+      reply();
+      return;
+    }
+
+    case 'deleteGame':
+      replyWithProblem(handleDeleteGame(request.gameId, clientKey));
+      return;
+
+    // Only a browser's own seated player can be announced
+    case 'presence':
+      if (getSeat(request.gameId, clientKey)?.playerId !== request.playerId) return badRequest('Not your seat');
+      setPresence(connection, request.gameId, request.playerId, request.online);
+      syncPlayerConnection(request.gameId, request.playerId);
+      reply();
+      return;
+
+    default:
+      badRequest(`Unknown request type ${(request as { type?: unknown }).type}`);
+  }
+};
+
+// --- CONNECTIONS ---
+
+const connections = new Set<WebSocketConnection>();
+const alive = new WeakSet<WebSocketConnection>();
+
+const handleConnection = (connection: WebSocketConnection) => {
+  connections.add(connection);
+  alive.add(connection);
+  send(connection, { type: 'welcome', bootId: BOOT_ID });
+
+  connection.onPong(() => alive.add(connection));
+  connection.onMessage(text => {
+    let request: unknown;
+    try {
+      request = JSON.parse(text);
+    } catch (error) {
+      console.warn('Ignoring malformed message:', text.slice(0, 100));
+      return;
+    }
+    const id = isObject(request) && typeof request.id === 'number' ? request.id : 0;
+    const badRequest = (message: string) => send(connection, { type: 'reply', id, ok: false, error: 'BAD_REQUEST', message });
+    if (!isWellFormedRequest(request)) {
+      badRequest('Malformed request');
+      return;
+    }
+    // One bad request must never take every room down with the process
+    try {
+      handleRequest(connection, request);
+    } catch (error) {
+      console.error('Failed to handle request:', error);
+      badRequest('Request failed on the server');
+    }
+  });
+  connection.onClose(() => {
+    connections.delete(connection);
+    clientKeys.delete(connection);
+    subscribers.forEach(topicSubscribers => topicSubscribers.delete(connection));
+    // A closed tab is a disconnected player, like Firebase's onDisconnect
+    const keys = [...(presenceByConnection.get(connection) || [])];
+    presenceByConnection.delete(connection);
+    new Set(keys.map(key => key.split('/')[0])).forEach(gameId => publish(`presence/${gameId}`));
+    keys.forEach(key => {
+      const [gameId, playerId] = key.split('/');
+      syncPlayerConnection(gameId, playerId);
+    });
+  });
+};
+
+setInterval(() => {
+  connections.forEach(connection => {
+    if (!alive.has(connection)) {
+      connection.close();
+      return;
+    }
+    alive.delete(connection);
+    connection.ping();
+  });
+}, HEARTBEAT_INTERVAL);
+
+loadData();
+
+const server = createServer((_request, response) => {
+  response.writeHead(200, { 'Content-Type': 'text/plain; charset=utf-8' });
+  response.end(`Relay running: ${getGames().length} games, ${connections.size} connections\n`);
+});
+
+server.on('upgrade', (request, socket) => {
+  const connection = acceptWebSocket(request, socket);
+  if (connection) handleConnection(connection);
+});
+
+server.listen(PORT, '0.0.0.0', () => {
+  console.log(`Relay listening on ws://0.0.0.0:${PORT}${DATA_FILE ? `, saving to ${DATA_FILE}` : ''}`);
+});
+
+// Flush a pending save before exiting on Ctrl+C
+process.on('SIGINT', () => {
+  if (saveTimer) {
+    clearTimeout(saveTimer);
+    saveData();
+  }
+  process.exit(0);
+});
@@ -0,0 +1,163 @@
+import { IncomingMessage } from 'node:http';
+import { Duplex } from 'node:stream';
+import { createHash } from 'node:crypto';
+
+// ==========================================
+// MINIMAL WEBSOCKET (RFC 6455)
+// ==========================================
+// Just enough of the protocol for the relay: text messages, ping/pong and
+// close, so the server runs on plain Node with no packages to install.
+
+const HANDSHAKE_GUID = '258EAFA5-E914-47DA-95CA-C5AB0DC85B11';
+const MAX_MESSAGE_BYTES = 16 * 1024 * 1024; // a room with a long archive stays well under this
+
+const OPCODE_CONTINUATION = 0x0;
+const OPCODE_TEXT = 0x1;
+const OPCODE_CLOSE = 0x8;
+const OPCODE_PING = 0x9;
+const OPCODE_PONG = 0xa;
+
+const CLOSE_MESSAGE_TOO_BIG = 1009;
+
+export interface WebSocketConnection {
+  send: (text: string) => void;
+  ping: () => void;
+  close: () => void;
+  onMessage: (handler: (text: string) => void) => void;
+  onPong: (handler: () => void) => void;
+  onClose: (handler: () => void) => void;
+}
+
+const encodeFrame = (opcode: number, payload: Buffer): Buffer => {
+  const length = payload.length;
+  const header = length < 126 ? Buffer.alloc(2) : length < 0x10000 ? Buffer.alloc(4) : Buffer.alloc(10);
+  header[0] = 0x80 | opcode; // FIN: every frame we send is a whole message
+  if (length < 126) {
+    header[1] = length;
+  } else if (length < 0x10000) {
+    header[1] = 126;
+    header.writeUInt16BE(length, 2);
+  } else {
+    header[1] = 127;
+    header.writeBigUInt64BE(BigInt(length), 2);
+  }
+  return Buffer.concat([header, payload]);
+};
+
+// Completes the HTTP upgrade; returns null (after refusing) for anything that isn't a WebSocket handshake
+export const acceptWebSocket = (request: IncomingMessage, socket: Duplex): WebSocketConnection | null => {
+  const key = request.headers['sec-websocket-key'];
+  if (request.headers.upgrade?.toLowerCase() !== 'websocket' || typeof key !== 'string') {
+    socket.end('HTTP/1.1 400 Bad Request\r\n\r\n');
+    return null;
+  }
+
+  const accept = createHash('sha1').update(key + HANDSHAKE_GUID).digest('base64');
+  socket.write([
+    'HTTP/1.1 101 Switching Protocols',
+    'Upgrade: websocket',
+    'Connection: Upgrade',
+    `Sec-WebSocket-Accept: ${accept}`,
+    '\r\n'
+  ].join('\r\n'));
+
+  let messageHandler: (text: string) => void = () => {};
+  let pongHandler: () => void = () => {};
+  let closeHandler: () => void = () => {};
+  let closed = false;
+  let buffered = Buffer.alloc(0);
+  let fragments: Buffer[] = [];
+  let fragmentBytes = 0;
+
+  const write = (opcode: number, payload: Buffer) => {
+    if (!closed) socket.write(encodeFrame(opcode, payload));
+  };
+
+  const finish = () => {
+    if (closed) return;
+    closed = true;
+    socket.destroy();
+    closeHandler();
+  };
+
+  // Close handshake carrying a status code, then drop the connection
+  const closeWith = (code: number) => {
+    const status = Buffer.alloc(2);
+    status.writeUInt16BE(code);
+    write(OPCODE_CLOSE, status);
+    finish();
+  };
+
+  // Parses every complete frame in the buffer; client frames are always masked
+  const readFrames = () => {
+    while (buffered.length >= 2) {
+      const fin = (buffered[0] & 0x80) !== 0;
+      const opcode = buffered[0] & 0x0f;
+      const masked = (buffered[1] & 0x80) !== 0;
+      let length = buffered[1] & 0x7f;
+      let offset = 2;
+      if (length === 126) {
+        if (buffered.length < 4) return;
+        length = buffered.readUInt16BE(2);
+        offset = 4;
+      } else if (length === 127) {
+        if (buffered.length < 10) return;
+        length = Number(buffered.readBigUInt64BE(2));
+        offset = 10;
+      }
+      if (!masked) {
+        finish();
+        return;
+      }
+      // The limit covers the whole message, fragments included
+      if (length > MAX_MESSAGE_BYTES - fragmentBytes) {
+        closeWith(CLOSE_MESSAGE_TOO_BIG);
+        return;
+      }
+      if (buffered.length < offset + 4 + length) return;
+
+      const mask = buffered.subarray(offset, offset + 4);
+      const payload = Buffer.from(buffered.subarray(offset + 4, offset + 4 + length));
+      for (let i = 0; i < payload.length; i++) payload[i] ^= mask[i % 4];
+      buffered = buffered.subarray(offset + 4 + length);
+
+      if (opcode === OPCODE_TEXT || opcode === OPCODE_CONTINUATION) {
+        fragments.push(payload);
+        fragmentBytes += payload.length;
+        if (fin) {
+          const text = Buffer.concat(fragments).toString('utf8');
+          fragments = [];
+          fragmentBytes = 0;
+          messageHandler(text);
+        }
+      } else if (opcode === OPCODE_PING) {
+        write(OPCODE_PONG, payload);
+      } else if (opcode === OPCODE_PONG) {
+        pongHandler();
+      } else if (opcode === OPCODE_CLOSE) {
+        write(OPCODE_CLOSE, Buffer.alloc(0));
+        finish();
+        return;
+      }
+    }
+  };
+
+  socket.on('data', (chunk: Buffer) => {
+    buffered = Buffer.concat([buffered, chunk]);
+    readFrames();
+  });
+  socket.on('close', finish);
+  socket.on('error', finish);
+
+  return {
+    send: (text) => write(OPCODE_TEXT, Buffer.from(text, 'utf8')),
+    ping: () => write(OPCODE_PING, Buffer.alloc(0)),
+    close: () => {
+      write(OPCODE_CLOSE, Buffer.alloc(0));
+      finish();
+    },
+    onMessage: (handler) => { messageHandler = handler; },
+    onPong: (handler) => { pongHandler = handler; },
+    onClose: (handler) => { closeHandler = handler; }
+  };
+};
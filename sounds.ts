@@ -40,8 +40,7 @@ export const playScoreSound = () => {
     oscillator.type = 'sine';
 
     gainNode.gain.setValueAtTime(0.3, ctx.currentTime);
-    gainNode.gain.exponentialDecayTo?.(0.01, ctx.currentTime + 0.3) ||
-      gainNode.gain.setValueAtTime(0.01, ctx.currentTime + 0.3);
+    gainNode.gain.exponentialRampToValueAtTime(0.01, ctx.currentTime + 0.3);
 
     oscillator.start(ctx.currentTime);
     oscillator.stop(ctx.currentTime + 0.3);
@@ -0,0 +1,217 @@
+import { GameState, GameRepository, Member, AccessLog, ChatMessage, TeamChatLog, RuleViolation, Unsubscribe } from './types';
+import { generateGameId, buildGameIndexEntry } from './utils';
+import { isRuleViolation, createGame, applyAtVersion } from './engine';
+
+// ==========================================
+// OFFLINE STORAGE BACKENDS
+// ==========================================
+// GameRepository implementations that need no network: localStorage shared
+// between the tabs of one browser through a BroadcastChannel, and a plain
+// in-memory store for tests and headless runs. Both keep one list per key and
+// change it with a synchronous read-modify-write, which is atomic within a tab.
+
+type StoreKey = 'games' | 'members' | 'logs' | 'chats';
+
+// Where the lists live; `listen` reports keys someone else changed
+interface KeyValueStore {
+  read: <T>(key: StoreKey, fallback: T) => T;
+  write: <T>(key: StoreKey, value: T) => void;
+  listen: (onChange: (key: StoreKey) => void) => Unsubscribe;
+}
+
+// Lists a fresh store starts with (the demo rooms, members and logs)
+export interface StorageSeed {
+  games?: GameState[];
+  members?: Member[];
+  logs?: AccessLog[];
+}
+
+// Same key names the app has always used, so existing local data still loads
+const LOCAL_STORAGE_KEYS: Record<StoreKey, string> = {
+  games: 'collective_intelligence_games',
+  members: 'collective_intelligence_members',
+  logs: 'collective_intelligence_logs',
+  chats: 'collective_intelligence_chats' // { [gameId]: TeamChatLog }
+};
+
+const SYNC_CHANNEL_NAME = 'collective_intelligence_sync';
+
+const gameNotFound: RuleViolation = {
+  kind: 'RULE_VIOLATION',
+  code: 'GAME_NOT_FOUND',
+  message: '게임을 찾을 수 없습니다. 삭제되었을 수 있습니다.'
+};
+
+const gameAlreadyExists: RuleViolation = {
+  kind: 'RULE_VIOLATION',
+  code: 'GAME_ALREADY_EXISTS',
+  message: '이미 존재하는 회사명입니다.'
+};
+
+const sortBySentAt = (messages: ChatMessage[]) => [...messages].sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+
+// The repository on top of any key-value store
+const createKeyValueRepository = (store: KeyValueStore, seed: StorageSeed): GameRepository => {
+  const listeners = new Map<StoreKey, Set<() => void>>();
+
+  const notify = (key: StoreKey) => {
+    (listeners.get(key) || new Set()).forEach(listener => listener());
+  };
+
+  // Calls `listener` now and after every change to `key`
+  const watch = (key: StoreKey, listener: () => void): Unsubscribe => {
+    if (!listeners.has(key)) listeners.set(key, new Set());
+    listeners.get(key)!.add(listener);
+    listener();
+    return () => {
+      listeners.get(key)?.delete(listener);
+    };
+  };
+
+  const readList = <T>(key: StoreKey, fallback: T[] = []): T[] => {
+    const list = store.read<T[]>(key, fallback);
+    return Array.isArray(list) ? list : fallback;
+  };
+
+  const writeList = <T>(key: StoreKey, list: T[]) => {
+    store.write(key, list);
+    notify(key);
+  };
+
+  const readGames = () => readList<GameState>('games', seed.games || []);
+  const findGame = (gameId: string) => readGames().find(g => generateGameId(g.companyName) === gameId) || null;
+  const readChats = () => store.read<{ [gameId: string]: TeamChatLog }>('chats', {});
+
+  store.listen(notify);
+
+  return {
+    subscribeToGameIndex: (callback) => watch('games', () => callback(readGames().map(buildGameIndexEntry))),
+    subscribeToGame: (gameId, callback) => watch('games', () => callback(findGame(gameId))),
+    getGameIndex: async () => readGames().map(buildGameIndexEntry),
+    getGame: async (gameId) => findGame(gameId),
+
+    createGame: async (options) => {
+      const game = createGame(options);
+      if (isRuleViolation(game)) return game;
+      const games = readGames();
+      const gameId = generateGameId(game.companyName);
+      if (games.some(g => generateGameId(g.companyName) === gameId)) return gameAlreadyExists;
+      writeList('games', [game, ...games]);
+      return game;
+    },
+
+    dispatchAction: async (gameId, action, base) => {
+      const games = readGames();
+      const index = games.findIndex(g => generateGameId(g.companyName) === gameId);
+      if (index === -1) return gameNotFound;
+      const next = applyAtVersion(games[index], action, base);
+      if (isRuleViolation(next)) return next;
+      writeList('games', games.map((g, i) => (i === index ? next : g)));
+      return next;
+    },
+
+    deleteGame: async (gameId) => {
+      writeList('games', readGames().filter(g => generateGameId(g.companyName) !== gameId));
+      const { [gameId]: _removed, ...otherChats } = readChats();
+      store.write('chats', otherChats);
+      notify('chats');
+    },
+
+    subscribeToMembers: (callback) => watch('members', () => callback(readList<Member>('members', seed.members || []))),
+    getMembers: async () => readList<Member>('members', seed.members || []),
+    transactMembers: async (update) => writeList('members', update(readList<Member>('members', seed.members || []))),
+    claimAdmin: async () => true,
+    subscribeToLogs: (callback) => watch('logs', () => callback(readList<AccessLog>('logs', seed.logs || []))),
+    getLogs: async () => readList<AccessLog>('logs', seed.logs || []),
+    appendLog: async (log) => writeList('logs', [...readList<AccessLog>('logs', seed.logs || []), log]),
+
+    subscribeToTeamChat: (gameId, teamNumber, callback) => watch('chats', () => {
+      callback(sortBySentAt((readChats()[gameId] || {})[teamNumber] || []));
+    }),
+    subscribeToGameChats: (gameId, callback) => watch('chats', () => {
+      const chats: TeamChatLog = {};
+      Object.entries(readChats()[gameId] || {}).forEach(([teamNumber, messages]) => {
+        chats[teamNumber] = sortBySentAt(Array.isArray(messages) ? messages : []);
+      });
+      callback(chats);
+    }),
+    sendChatMessage: async (gameId, teamNumber, message) => {
+      const allChats = readChats();
+      const gameChats = allChats[gameId] || {};
+      store.write('chats', { ...allChats, [gameId]: { ...gameChats, [teamNumber]: [...(gameChats[teamNumber] || []), message] } });
+      notify('chats');
+    },
+
+    // Nothing here notices a closed tab, so presence is never reported
+    trackPresence: () => () => {},
+    subscribeToPresence: () => () => {}
+  };
+};
+
+// --- HELPER: Check if localStorage is available (private mode, security restrictions) ---
+const isLocalStorageAvailable = (): boolean => {
+  try {
+    if (typeof window === 'undefined' || typeof localStorage === 'undefined') {
+      return false;
+    }
+    const testKey = '__storage_test__';
+    localStorage.setItem(testKey, testKey);
+    localStorage.removeItem(testKey);
+    return true;
+  } catch (e) {
+    return false;
+  }
+};
+
+// localStorage of this browser; other tabs hear about each write on a BroadcastChannel
+export const createLocalStorageRepository = (seed: StorageSeed = {}): GameRepository => {
+  const available = isLocalStorageAvailable();
+  const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(SYNC_CHANNEL_NAME) : null;
+  // Keeps working (for this tab only) when localStorage is blocked
+  const fallback = new Map<StoreKey, unknown>();
+
+  return createKeyValueRepository({
+    read: <T>(key: StoreKey, defaultValue: T): T => {
+      if (!available) return fallback.has(key) ? (fallback.get(key) as T) : defaultValue;
+      try {
+        const stored = localStorage.getItem(LOCAL_STORAGE_KEYS[key]);
+        const parsed = stored ? JSON.parse(stored) : null;
+        return parsed === null || parsed === undefined ? defaultValue : parsed;
+      } catch (e) {
+        return defaultValue;
+      }
+    },
+    write: (key, value) => {
+      if (!available) {
+        fallback.set(key, value);
+        return;
+      }
+      try {
+        localStorage.setItem(LOCAL_STORAGE_KEYS[key], JSON.stringify(value));
+        channel?.postMessage(key);
+      } catch (e) {
+        console.error('Failed to write to localStorage:', e);
+      }
+    },
+    listen: (onChange) => {
+      if (!channel) return () => {};
+      const handleMessage = (event: MessageEvent) => onChange(event.data as StoreKey);
+      channel.addEventListener('message', handleMessage);
+      return () => channel.removeEventListener('message', handleMessage);
+    }
+  }, seed);
+};
+
+// Lives and dies with the page (or test); nothing is shared or persisted
+export const createMemoryRepository = (seed: StorageSeed = {}): GameRepository => {
+  const values = new Map<StoreKey, unknown>();
+
+  return createKeyValueRepository({
+    read: <T>(key: StoreKey, defaultValue: T): T => (values.has(key) ? (values.get(key) as T) : defaultValue),
+    // Copies so callers never share objects with the store, as with a real backend
+    write: (key, value) => {
+      values.set(key, JSON.parse(JSON.stringify(value)));
+    },
+    listen: () => () => {}
+  }, seed);
+};
@@ -3,6 +3,8 @@ export interface Player {
   id: string;
   name: string;
   joinedAt: string;
+  // false while the player's app is offline (missing = connected)
+  connected?: boolean;
 }
 
 export interface Team {
@@ -12,6 +14,25 @@ export interface Team {
   score: number;
   hasPlacedCurrentNumber: boolean;
   placedBy: string | null;
+  // Computer-controlled team; places every number automatically
+  isAI?: boolean;
+  // Every placement in order, recorded for the post-game debrief
+  placements?: TeamPlacement[];
+  // Filled in after the game by engine action BUILD_DEBRIEF
+  debrief?: DebriefRound[];
+  // Members' cell proposals keyed by player id, so members never overwrite each other
+  proposals?: { [playerId: string]: PlacementProposal };
+  // Player ids; missing captain = first member to join (see utils.getTeamCaptainId)
+  captainId?: string | null;
+  viceCaptainId?: string | null;
+  // Lobby captain election: voter id -> candidate id
+  captainVotes?: { [voterId: string]: string };
+}
+
+export interface TeamPlacement {
+  round: number;
+  value: number | string;
+  position: number;
 }
 
 export type GameMode = 'CONTROL' | 'RANDOM_BOARD' | null;
@@ -22,11 +43,13 @@ export interface GameState {
   teams: Team[];
   availableNumbers: (number | string)[];
   usedNumbers: (number | string)[];
-  // Track specific indices (0-39) of the deck that have been used
+  // Track specific indices of the deck that have been used
   usedCardIndices: number[];
   currentNumber: number | string | null;
   gameStarted: boolean;
   gameEnded: boolean;
+  // Lifecycle of the room; gameStarted / gameEnded stay in step with it (missing = derived from them)
+  phase?: GamePhase;
   waitingForPlacements: boolean;
   currentRound: number;
   finalRanking: {
@@ -34,21 +57,445 @@ export interface GameState {
     teamNumber: number;
     score: number;
     players: Player[];
+    percentOfOptimum?: number; // score as a % of hindsightOptimum
   }[];
+  // Best score reachable with the dealt numbers known in advance (set at game end)
+  hindsightOptimum?: number;
+  // False when the search hit its node budget, making hindsightOptimum a lower bound
+  hindsightOptimumExact?: boolean;
   creatorId: string; // ID of the user who created the game
   createdAt: string;
   // Game mode: CONTROL (open numbers) or RANDOM_BOARD (hidden numbers)
   gameMode: GameMode;
-  // For RANDOM_BOARD mode: shuffled numbers array (A1-H5 = 40 cells)
+  // For RANDOM_BOARD mode: shuffled deck, one card behind each cover (A1, A2, ...)
   randomBoardNumbers?: (number | string)[];
   // For RANDOM_BOARD mode: which cells have been revealed
   revealedCells?: string[];
   // For RANDOM_BOARD mode: pending number to be submitted
   pendingRandomNumber?: { value: number | string; cellLabel: string } | null;
+  // Joker scoring rule; missing on games created before OPTIMAL existed
+  jokerRule?: JokerRule;
+  // Number of cells on each team board (missing = 20)
+  boardSize?: number;
+  // Points indexed by run length, index 0 unused (missing = classic table)
+  scoreTable?: number[];
+  // Seed of the board shuffle and random reveals (missing on older games)
+  seed?: number;
+  // Strategy used by AI teams (missing = MONTE_CARLO)
+  aiDifficulty?: AIDifficulty;
+  // How human teams commit a placement (missing = FIRST_CLICK)
+  decisionMode?: TeamDecisionMode;
+  // Helpers shown on player screens (missing = none)
+  playerAids?: PlayerAid[];
+  // Seconds each round allows for placing (missing or 0 = no limit)
+  placementTimeLimit?: number;
+  // What happens to teams still placing when time runs out (missing = WAIT)
+  timeoutPolicy?: TimeoutPolicy;
+  // Countdown of the current round; null between rounds
+  roundTimer?: RoundTimer | null;
+  // Cards in play; randomBoardNumbers is a shuffle of this deck (missing = classic)
+  deckSpec?: DeckSpec;
+  // 1 for the first game in this room, +1 per rematch (missing = 1)
+  gameNumber?: number;
+  // Finished earlier games of this room, oldest first (their own archivedGames are dropped)
+  archivedGames?: GameState[];
+  // Set when the room's games are played as one tournament (missing = single games)
+  tournament?: Tournament | null;
   // Version counter for conflict resolution
   version?: number;
 }
 
+// --- DECK TYPES ---
+
+// Every value from..to (inclusive) appears `copies` times in the deck
+export interface DeckRange {
+  from: number;
+  to: number;
+  copies: number;
+}
+
+export interface DeckSpec {
+  ranges: DeckRange[];
+  jokers: number; // number of ★ cards
+}
+
+export type DeckPresetId = 'EASY' | 'CLASSIC' | 'CHAOS';
+
+export interface DeckPreset {
+  id: DeckPresetId;
+  label: string;
+  description: string;
+  spec: DeckSpec;
+}
+
+// --- GAME PHASE TYPES ---
+
+// PAUSED freezes placements, reveals and the round timer; ABORTED is a game
+// the host ended early, ranked on the boards as they stood
+export type GamePhase = 'LOBBY' | 'RUNNING' | 'PAUSED' | 'ENDED' | 'ABORTED';
+
+// --- GAME INDEX TYPES ---
+
+// Lobby summary of one room, stored at gameIndex/<gameId> so the lobby never
+// downloads every room's full state
+export interface GameIndexEntry {
+  gameId: string;
+  companyName: string;
+  teamCount: number;
+  phase: GamePhase;
+  creatorId: string;
+  createdAt: string;
+  teams: { teamNumber: number; playerCount: number; isAI: boolean }[];
+}
+
+// --- STORAGE TYPES ---
+
+export type StorageBackend = 'firebase' | 'local' | 'memory' | 'relay';
+
+export type Unsubscribe = () => void;
+
+// Everything the app stores, behind one interface so it runs the same on
+// Firebase, on a single offline laptop or in memory. Subscriptions call back
+// with the current value first and again after every change; transactions
+// read the latest stored value and commit atomically. Rooms only change
+// through the rules engine: callers send intents (create options, actions) and
+// get back the resulting state or the rule they broke.
+export interface GameRepository {
+  // Rooms: the lobby index and one room's full state
+  subscribeToGameIndex: (callback: (entries: GameIndexEntry[]) => void) => Unsubscribe;
+  subscribeToGame: (gameId: string, callback: (game: GameState | null) => void) => Unsubscribe; // null once deleted
+  getGameIndex: () => Promise<GameIndexEntry[]>;
+  getGame: (gameId: string) => Promise<GameState | null>;
+  createGame: (options: CreateGameOptions) => Promise<GameState | RuleViolation>; // GAME_ALREADY_EXISTS for a taken name
+  dispatchAction: (gameId: string, action: GameAction, base?: ActionBase) => Promise<GameState | RuleViolation>;
+  deleteGame: (gameId: string) => Promise<void>; // with its chats and presence
+
+  // Members, read and written as a whole list, and the append-only access log.
+  // claimAdmin lets a backend with a server check the admin password there too
+  // (true when accepted; backends without one always accept)
+  subscribeToMembers: (callback: (members: Member[]) => void) => Unsubscribe;
+  getMembers: () => Promise<Member[]>;
+  transactMembers: (update: (current: Member[]) => Member[]) => Promise<void>;
+  subscribeToLogs: (callback: (logs: AccessLog[]) => void) => Unsubscribe;
+  getLogs: () => Promise<AccessLog[]>;
+  appendLog: (log: AccessLog) => Promise<void>;
+  claimAdmin: (password: string) => Promise<boolean>;
+
+  // Team chat: players follow their own team, the host the whole room
+  subscribeToTeamChat: (gameId: string, teamNumber: number, callback: (messages: ChatMessage[]) => void) => Unsubscribe;
+  subscribeToGameChats: (gameId: string, callback: (chats: TeamChatLog) => void) => Unsubscribe;
+  sendChatMessage: (gameId: string, teamNumber: number, message: ChatMessage) => Promise<void>;
+
+  // Presence of connected players; backends that can't notice a dropped
+  // connection never call back, so nobody is marked disconnected
+  trackPresence: (gameId: string, playerId: string) => Unsubscribe;
+  subscribeToPresence: (gameId: string, callback: (onlinePlayerIds: string[]) => void) => Unsubscribe;
+}
+
+// --- RELAY TYPES ---
+// JSON messages between the self-hosted relay server (server/relayServer.ts)
+// and its client (relay.ts). Data lives under topics: gameIndex, games/<gameId>,
+// members (admins and room creators only), logs (append-only),
+// chats/<gameId>/<teamNumber> (that team's players and the host only),
+// chats/<gameId> (every team's channel, host only) and presence/<gameId>. Every stored value has a
+// revision; a put only lands on the revision it was based on (0 = not stored
+// yet), which makes each write a compare-and-set. Rooms can't be put at all:
+// the server creates and changes them by running createGame and action
+// requests through the rules engine itself.
+
+export type RelayRequest =
+  | { id: number; type: 'subscribe'; topic: string }
+  | { id: number; type: 'unsubscribe'; topic: string }
+  | { id: number; type: 'get'; topic: string }
+  | { id: number; type: 'put'; topic: string; value: unknown; baseRevision: number }
+  // First request on every connection. clientKey is the browser's private id:
+  // host actions only count from the browser that created the room, team
+  // actions from the browser that joined as that player
+  | { id: number; type: 'hello'; clientKey: string }
+  | { id: number; type: 'claimAdmin'; password: string } // member list writes need it, or a room created from this browser
+  | { id: number; type: 'createGame'; options: CreateGameOptions }
+  | { id: number; type: 'action'; gameId: string; action: GameAction; base?: ActionBase }
+  // Appends to the sender's own team channel; the server fills in who, when and which round
+  | { id: number; type: 'sendChat'; gameId: string; teamNumber: number; text: string }
+  | { id: number; type: 'appendLog'; log: AccessLog }
+  | { id: number; type: 'deleteGame'; gameId: string } // host only, or anyone once the room is past retention; with its chats and presence
+  | { id: number; type: 'presence'; gameId: string; playerId: string; online: boolean };
+
+// DISCONNECTED never comes from the server: the client fails requests with it when the socket drops
+export type RelayReplyError = 'CONFLICT' | 'BAD_REQUEST' | 'RULE_VIOLATION' | 'DISCONNECTED';
+
+export type RelayMessage =
+  // First message on every connection; a new bootId means revisions the client
+  // cached from an earlier server run no longer compare
+  | { type: 'welcome'; bootId: string }
+  // Current value of a subscribed topic, sent on subscribe and after every change
+  | { type: 'value'; topic: string; value: unknown; revision: number }
+  // Answer to one request; a failed one has an error, a CONFLICT carries the
+  // latest value and revision so the client can retry on them, and a
+  // RULE_VIOLATION the engine's rejection
+  | { type: 'reply'; id: number; ok: boolean; error?: RelayReplyError; message?: string; value?: unknown; revision?: number; violation?: RuleViolation };
+
+// --- TOURNAMENT TYPES ---
+
+// SUM adds every game's score, BEST_OF keeps each team's best game,
+// RANK_POINTS awards (teams in the game - rank + 1) points per game
+export type TournamentAggregation = 'SUM' | 'BEST_OF' | 'RANK_POINTS';
+
+// The room's games (archived rematches plus the current one) make up the tournament
+export interface Tournament {
+  name: string;
+  aggregation: TournamentAggregation;
+  totalGames: number; // planned number of games
+}
+
+// What separated a team from the one ranked just above it when their totals tied
+export type TournamentTieBreaker = 'SCORE_SUM' | 'BEST_GAME' | 'WINS';
+
+export interface TournamentGameResult {
+  gameNumber: number;
+  rank: number;
+  score: number;
+  points: number; // what this game adds under the aggregation
+}
+
+export interface TournamentStanding {
+  rank: number; // teams still level after every tie-breaker share a rank
+  teamNumber: number;
+  total: number;
+  games: TournamentGameResult[];
+  decidedBy: TournamentTieBreaker | null;
+}
+
+// --- ROUND TIMER TYPES ---
+
+// FIRST_EMPTY / AI_PLACE place the number for late teams, DISCARD skips it
+// for them (their cell stays empty), WAIT only flags them
+export type TimeoutPolicy = 'FIRST_EMPTY' | 'AI_PLACE' | 'DISCARD' | 'WAIT';
+
+// Remaining time is stored rather than a deadline so the timer can be paused
+export interface RoundTimer {
+  startedAt: string | null; // when the countdown last (re)started; null while paused
+  remainingMs: number; // time left as of startedAt, or frozen while paused
+  paused: boolean;
+}
+
+// --- PLAYER AID TYPES ---
+
+// Optional helpers the host turns on for beginner sessions and off for competitive ones
+export type PlayerAid = 'PLACEMENT_PREVIEW' | 'DECK_TRACKER';
+
+// --- TEAM DECISION TYPES ---
+
+// How a team commits its placement. FIRST_CLICK is the original behaviour
+// (any member's confirm places for the whole team); the others collect proposals.
+export type TeamDecisionMode = 'FIRST_CLICK' | 'MAJORITY' | 'UNANIMOUS' | 'CAPTAIN';
+
+// A member's suggested cell for one round. A withdrawn proposal is kept with
+// position null so the latest write still wins when copies are merged.
+export interface PlacementProposal {
+  playerId: string;
+  playerName: string;
+  position: number | null;
+  round: number; // proposals from earlier rounds are ignored
+  proposedAt: string;
+}
+
+// Roles with placement authority; only the captain confirms in CAPTAIN mode
+export type TeamRole = 'CAPTAIN' | 'VICE_CAPTAIN';
+
+// --- CHAT TYPES ---
+
+// One message in a team's private channel (stored outside GameState, see firebase.ts)
+export interface ChatMessage {
+  id: string;
+  playerId: string;
+  playerName: string;
+  text: string;
+  sentAt: string;
+  round: number; // round in progress when sent, so the debrief can line it up
+}
+
+// A game's chat channels keyed by team number
+export type TeamChatLog = { [teamNumber: string]: ChatMessage[] };
+
+// --- SCORING TYPES ---
+
+// A maximal connected stretch of filled cells (inclusive indices)
+export interface ScoringRun {
+  start: number;
+  end: number;
+  length: number;
+  points: number;
+}
+
+// How jokers are scored. SHORTER_SIDE_BREAK is the original heuristic and is
+// kept so games played under it can be reproduced exactly.
+export type JokerRule = 'OPTIMAL' | 'SHORTER_SIDE_BREAK';
+
+// How a joker was resolved when the board was scored
+export interface JokerDecision {
+  jokerIndex: number;
+  joins: 'LEFT' | 'RIGHT' | 'BOTH' | 'NONE'; // neighbours the joker stays connected to
+  // SHORTER_SIDE_BREAK only (recorded for jokers between a descending pair)
+  beforePos?: number;
+  afterPos?: number;
+  leftLength?: number;
+  rightLength?: number;
+  // OPTIMAL only: the value the joker was scored as (±Infinity = below/above every number)
+  assignedValue?: number;
+}
+
+// Per-game scoring configuration (see utils.getScoringRules)
+export interface ScoringRules {
+  jokerRule: JokerRule;
+  scoreTable: number[]; // points indexed by run length; index 0 unused
+}
+
+// Effect of putting a number in one empty cell, shown before a player confirms
+export interface PlacementPreview {
+  position: number;
+  score: number; // board total after the placement
+  delta: number; // change from the current total
+  run: ScoringRun; // run the new number ends up in
+  joined: ScoringRun[]; // existing runs it connects to
+  broken: ScoringRun[]; // existing scoring runs that no longer hold together
+  blockedSides: ('LEFT' | 'RIGHT')[]; // filled neighbours it fails to connect to
+}
+
+export interface BoardAnalysis {
+  runs: ScoringRun[];
+  jokerDecisions: JokerDecision[];
+  scoringGroups: Map<number, number>; // cellIndex -> color group (scoring runs only)
+  totalScore: number;
+}
+
+// --- AI TYPES ---
+
+export type AIDifficulty = 'RANDOM' | 'GREEDY' | 'EXPECTED' | 'MONTE_CARLO';
+
+// Everything a strategy may look at when placing one number
+export interface PlacementContext {
+  board: (number | string | null)[];
+  value: number | string;
+  remaining: (number | string)[]; // cards not yet dealt (excludes value)
+  roundsLeft: number; // numbers still to come after this one
+  rules: ScoringRules;
+  random: () => number; // seeded, so AI moves replay exactly
+}
+
+// Returns the index of the empty cell to place value in
+export type PlacementStrategy = (context: PlacementContext) => number;
+
+// One round of a team's debrief: its cell next to the strong strategy's pick
+export interface DebriefRound {
+  round: number;
+  value: number | string;
+  chosenIndex: number;
+  bestIndex: number;
+  chosenExpected: number; // expected final score after the team's choice
+  bestExpected: number; // expected final score after the strong strategy's choice
+  regret: number; // bestExpected - chosenExpected
+}
+
+// --- RULES ENGINE TYPES ---
+
+// Every transition of a running game, as accepted by engine.apply().
+// Actions carry only intent; randomness comes from the game's seed (or the
+// caller, for games without one) so the reducer itself stays deterministic.
+export type GameAction =
+  | { type: 'JOIN_TEAM'; teamIndex: number; player: Player; replacesPlayerId?: string } // the same browser's earlier entry, dropped first
+  | { type: 'ADD_AI_TEAM'; joinedAt: string }
+  | { type: 'START_GAME'; seed: number } // seed for the board shuffle and reveal rolls
+  | { type: 'SELECT_CELL'; cellLabel: string }
+  | { type: 'RANDOM_REVEAL'; roll?: number } // roll in [0, 1), only used when the game has no seed
+  | { type: 'SUBMIT_NUMBER'; startedAt?: string } // startedAt starts the round timer
+  | { type: 'PLACE_NUMBER'; teamIndex: number; position: number; playerName: string | null }
+  | { type: 'PROPOSE_CELL'; teamIndex: number; playerId: string; position: number | null; proposedAt: string } // null withdraws
+  | { type: 'CONFIRM_PLACEMENT'; teamIndex: number; playerId: string; position: number } // CAPTAIN mode
+  | { type: 'ASSIGN_TEAM_ROLE'; teamIndex: number; role: TeamRole; playerId: string | null } // host; null clears
+  | { type: 'VOTE_CAPTAIN'; teamIndex: number; voterId: string; candidateId: string } // lobby only
+  | { type: 'SET_PLAYER_CONNECTION'; teamIndex: number; playerId: string; connected: boolean }
+  | { type: 'SET_PLAYER_AID'; aid: PlayerAid; enabled: boolean }
+  | { type: 'PAUSE_TIMER'; now: string }
+  | { type: 'RESUME_TIMER'; now: string }
+  | { type: 'RESOLVE_TIMEOUT'; now: string } // applies the timeout policy once time is up
+  | { type: 'PAUSE_GAME'; now: string }
+  | { type: 'RESUME_GAME'; now: string }
+  | { type: 'ABORT_GAME' } // host ends the game early
+  | { type: 'UNDO_REVEAL'; removePlacements?: boolean } // takes back the last number; true also clears it from boards
+  | { type: 'REMATCH'; seed: number } // archives the finished game and deals a fresh one to the same teams
+  | { type: 'SET_TOURNAMENT'; tournament: Tournament | null } // null plays single games
+  | { type: 'BUILD_DEBRIEF'; teamIndex: number }
+  | { type: 'EXPIRE_GAME'; now: string }; // closes a room left open past GAME_EXPIRY_HOURS
+
+// What a client saw when it decided on an action (see engine.applyAtVersion)
+export type ActionBase = Pick<GameState, 'version' | 'currentRound' | 'currentNumber'>;
+
+export interface CreateGameOptions {
+  companyName: string;
+  teamCount: number;
+  creatorId: string;
+  createdAt: string;
+  seed: number; // drives the board shuffle and random reveals
+  jokerRule?: JokerRule; // defaults to OPTIMAL
+  boardSize?: number; // defaults to 20
+  scoreTable?: number[]; // points indexed by run length; defaults to the classic curve
+  deckSpec?: DeckSpec; // defaults to the classic 40-card deck
+  aiDifficulty?: AIDifficulty; // defaults to MONTE_CARLO
+  decisionMode?: TeamDecisionMode; // defaults to FIRST_CLICK
+  playerAids?: PlayerAid[]; // defaults to none
+  placementTimeLimit?: number; // seconds per round; defaults to 0 (no limit)
+  timeoutPolicy?: TimeoutPolicy; // defaults to WAIT
+  tournament?: Tournament | null; // defaults to single games
+}
+
+export type RuleViolationCode =
+  | 'INVALID_GAME_SETUP'
+  | 'EMPTY_PLAYER_NAME'
+  | 'TEAM_NOT_FOUND'
+  | 'TEAM_FULL'
+  | 'DUPLICATE_PLAYER_NAME'
+  | 'AI_TEAM_NOT_JOINABLE'
+  | 'GAME_ALREADY_STARTED'
+  | 'GAME_NOT_ENDED'
+  | 'NO_PLACEMENT_HISTORY'
+  | 'CONSENSUS_REQUIRED'
+  | 'PLAYER_NOT_IN_TEAM'
+  | 'CAPTAIN_ONLY'
+  | 'HOST_ONLY' // a host action from a browser other than the one that created the room
+  | 'INVALID_TEAM_ROLE'
+  | 'NO_ROUND_TIMER'
+  | 'TIMER_NOT_EXPIRED'
+  | 'NO_ACTIVE_TEAMS'
+  | 'GAME_NOT_RUNNING'
+  | 'GAME_PAUSED'
+  | 'GAME_NOT_PAUSED'
+  | 'NOTHING_TO_UNDO'
+  | 'PLACEMENTS_EXIST'
+  | 'WAITING_FOR_PLACEMENTS'
+  | 'UNKNOWN_CELL'
+  | 'CELL_ALREADY_REVEALED'
+  | 'ALL_CELLS_REVEALED'
+  | 'NO_PENDING_NUMBER'
+  | 'NO_CURRENT_NUMBER'
+  | 'ALREADY_PLACED'
+  | 'INVALID_POSITION'
+  | 'CELL_OCCUPIED'
+  | 'GAME_NOT_EXPIRED'
+  | 'SEAT_MISMATCH' // a team action from a browser that didn't join as that player
+  | 'VERSION_CONFLICT' // the game moved on after the client decided; retry on the latest state
+  | 'GAME_NOT_FOUND'
+  | 'GAME_ALREADY_EXISTS'
+  | 'SYNC_FAILED';
+
+// Returned by engine.apply() instead of a new state when an action breaks the rules.
+// `message` is user-facing and can be shown as-is.
+export interface RuleViolation {
+  kind: 'RULE_VIOLATION';
+  code: RuleViolationCode;
+  message: string;
+}
+
 export type Role = 'HOST' | 'PLAYER' | 'NONE';
 
 export interface AppContextState {
@@ -1,23 +1,27 @@
 
-import { GameState, Team } from './types';
+import { GameState, Team, BoardAnalysis, ScoringRun, JokerDecision, JokerRule, ScoringRules, DeckSpec, DeckPreset, DeckPresetId, AIDifficulty, TeamDecisionMode, PlacementProposal, PlayerAid, PlacementPreview, TimeoutPolicy, RoundTimer, GamePhase, GameIndexEntry, TournamentAggregation, TournamentTieBreaker, TournamentGameResult, TournamentStanding } from './types';
 
 // ==========================================
 // LOGIC PORTED FROM GOOGLE APPS SCRIPT
 // ==========================================
 
+// Classic game: 20 cells, points indexed by run length (index 0 unused)
+export const DEFAULT_BOARD_SIZE = 20;
+export const DEFAULT_SCORE_TABLE = [0, 0, 1, 3, 5, 7, 9, 11, 15, 20, 25, 30, 35, 40, 50, 60, 70, 85, 100, 150, 300];
+
 /**
  * Restores a board array from Firebase data.
  * Firebase converts sparse arrays with null values to objects like {2: 5, 10: 15}
- * This function ensures we always get a proper 20-element array back.
+ * This function ensures we always get a proper boardSize-element array back.
  */
-export const restoreBoardArray = (board: any): (number | string | null)[] => {
-  // Create a fresh 20-element array filled with null
-  const restoredBoard: (number | string | null)[] = Array(20).fill(null);
+export const restoreBoardArray = (board: any, boardSize: number = DEFAULT_BOARD_SIZE): (number | string | null)[] => {
+  // Create a fresh boardSize-element array filled with null
+  const restoredBoard: (number | string | null)[] = Array(boardSize).fill(null);
 
   // If board is an array, copy valid values (convert undefined to null)
   if (Array.isArray(board)) {
     board.forEach((value, index) => {
-      if (index < 20 && value !== undefined && value !== null) {
+      if (index < boardSize && value !== undefined && value !== null) {
         restoredBoard[index] = value;
       }
       // undefined or null values are left as null (from Array.fill)
@@ -31,14 +35,14 @@ export const restoreBoardArray = (board: any): (number | string | null)[] => {
       const index = parseInt(key, 10);
       const value = board[key];
       // Only copy non-null, non-undefined values
-      if (!isNaN(index) && index >= 0 && index < 20 && value !== undefined && value !== null) {
+      if (!isNaN(index) && index >= 0 && index < boardSize && value !== undefined && value !== null) {
         restoredBoard[index] = value;
       }
     });
     return restoredBoard;
   }
 
-  // Default: return empty 20-element array
+  // Default: return empty board
   return restoredBoard;
 };
 
@@ -50,38 +54,139 @@ export const generatePlayerId = () => {
   return 'player_' + Math.random().toString(36).substr(2, 9) + '_' + Date.now();
 };
 
-export const createFullDeck = (): (number | string)[] => {
-  const deck: (number | string)[] = [];
-  
-  // 1-10: 1 card each
-  for (let i = 1; i <= 10; i++) {
-    deck.push(i);
+export const generateMessageId = () => {
+  return 'msg_' + Date.now() + '_' + Math.random().toString(36).substr(2, 6);
+};
+
+export const MAX_CHAT_MESSAGE_LENGTH = 200;
+
+// Classic deck: 1-10 once, 11-19 twice, 20-30 once and a single joker (40 cards)
+export const CLASSIC_DECK: DeckSpec = {
+  ranges: [
+    { from: 1, to: 10, copies: 1 },
+    { from: 11, to: 19, copies: 2 },
+    { from: 20, to: 30, copies: 1 }
+  ],
+  jokers: 1
+};
+
+export const DECK_PRESETS: DeckPreset[] = [
+  {
+    id: 'EASY',
+    label: '쉬움',
+    description: '1~20 각 1장, ★ 2장 (22장)',
+    spec: { ranges: [{ from: 1, to: 20, copies: 1 }], jokers: 2 }
+  },
+  {
+    id: 'CLASSIC',
+    label: '클래식',
+    description: '1~10, 20~30 각 1장, 11~19 각 2장, ★ 1장 (40장)',
+    spec: CLASSIC_DECK
+  },
+  {
+    id: 'CHAOS',
+    label: '카오스',
+    description: '1~50 각 1장, ★ 3장 (53장)',
+    spec: { ranges: [{ from: 1, to: 50, copies: 1 }], jokers: 3 }
   }
-  
-  // 11-19: 2 cards each
-  for (let i = 11; i <= 19; i++) {
-    deck.push(i);
-    deck.push(i);
+];
+
+export const getDeckPreset = (id: DeckPresetId): DeckPreset => {
+  return DECK_PRESETS.find(p => p.id === id) || DECK_PRESETS[1];
+};
+
+export const getDeckSize = (spec: DeckSpec): number => {
+  const ranges = Array.isArray(spec.ranges) ? spec.ranges : [];
+  return ranges.reduce((sum, r) => sum + Math.max(r.to - r.from + 1, 0) * r.copies, 0) + (spec.jokers || 0);
+};
+
+export const createFullDeck = (spec: DeckSpec = CLASSIC_DECK): (number | string)[] => {
+  const deck: (number | string)[] = [];
+  const ranges = Array.isArray(spec.ranges) ? spec.ranges : [];
+
+  for (const range of ranges) {
+    for (let i = range.from; i <= range.to; i++) {
+      for (let c = 0; c < range.copies; c++) {
+        deck.push(i);
+      }
+    }
   }
-  
-  // 20-30: 1 card each
-  for (let i = 20; i <= 30; i++) {
-    deck.push(i);
+
+  for (let j = 0; j < (spec.jokers || 0); j++) {
+    deck.push('★');
   }
-  
-  // Joker
-  deck.push('★');
-  
-  // Sort (Joker at end for display consistency in host view if needed)
+
+  // Sort (Jokers at end for display consistency in host view if needed)
   deck.sort((a, b) => {
+    if (a === '★' && b === '★') return 0;
     if (a === '★') return 1;
     if (b === '★') return -1;
     return (a as number) - (b as number);
   });
-  
+
   return deck;
 };
 
+// Fisher-Yates shuffle. Returns a new array; `random` defaults to Math.random.
+export const shuffleDeck = <T>(deck: T[], random: () => number = Math.random): T[] => {
+  const shuffled = [...deck];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// --- SEEDED RANDOMNESS ---
+// A game's seed determines its board shuffle and every random reveal, so the
+// whole number sequence can be re-derived or replayed by another company.
+
+export const MAX_SEED = 0xFFFFFFFF;
+
+export const generateSeed = (): number => Math.floor(Math.random() * (MAX_SEED + 1));
+
+// mulberry32: tiny 32-bit PRNG that gives the same stream in every JS engine
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+// Roll in [0, 1) for the n-th random reveal (0-based). Drawn from a stream
+// separate from the shuffle so manual cell picks don't shift later rolls.
+export const getRevealRoll = (seed: number, revealIndex: number): number => {
+  const random = createSeededRandom(seed ^ 0x9E3779B9);
+  let roll = random();
+  for (let i = 0; i < revealIndex; i++) {
+    roll = random();
+  }
+  return roll;
+};
+
+// Shuffled deck for RANDOM_BOARD mode (one card behind each cover).
+// With a seed the shuffle is reproducible; without one it uses Math.random.
+export const generateRandomBoardNumbers = (spec: DeckSpec = CLASSIC_DECK, seed?: number): (number | string)[] => {
+  return shuffleDeck(createFullDeck(spec), seed === undefined ? Math.random : createSeededRandom(seed));
+};
+
+// Rows of five covers per letter: A1-A5, B1-B5, ... (40 cards = A1-H5)
+const GRID_COLUMNS = 5;
+export const MAX_DECK_SIZE = 26 * GRID_COLUMNS;
+
+// Cover labels for RANDOM_BOARD mode, one per card
+export const generateGridLabels = (deckSize: number = getDeckSize(CLASSIC_DECK)): string[] => {
+  const labels: string[] = [];
+  for (let i = 0; i < Math.min(deckSize, MAX_DECK_SIZE); i++) {
+    labels.push(`${String.fromCharCode(65 + Math.floor(i / GRID_COLUMNS))}${(i % GRID_COLUMNS) + 1}`);
+  }
+  return labels;
+};
+
 // Helper for scoring - checks if two adjacent numbers are in ascending order
 // Joker handling is done separately in the main scoring function
 const isNumericAscending = (current: number | string, next: number | string): boolean => {
@@ -102,14 +207,19 @@ const getNumericValue = (val: number | string | null): number | null => {
   return typeof val === 'number' ? val : parseFloat(val as string);
 };
 
-export const calculatePlayerScore = (board: (number | string | null)[]) => {
-  const SCORE_TABLE = [0, 0, 1, 3, 5, 7, 9, 11, 15, 20, 25, 30, 35, 40, 50, 60, 70, 85, 100, 150, 300];
+// Points for a single run of the given length; runs longer than the table take its last entry
+export const runPoints = (length: number, scoreTable: number[]) => scoreTable[Math.min(length, scoreTable.length - 1)] || 0;
+
+// SHORTER_SIDE_BREAK: the original rule. A joker sitting between a descending
+// pair stays connected to the longer side and breaks on the shorter side.
+const buildShorterSideConnections = (board: (number | string | null)[]) => {
+  const n = board.length;
 
   // Step 1: Build connection array - does position i connect to position i+1?
   // Initially mark all adjacent non-null pairs as potentially connected
-  const connects: boolean[] = new Array(20).fill(false);
+  const connects: boolean[] = new Array(n).fill(false);
 
-  for (let i = 0; i < 19; i++) {
+  for (let i = 0; i < n - 1; i++) {
     if (board[i] === null || board[i + 1] === null) {
       connects[i] = false;
       continue;
@@ -129,7 +239,9 @@ export const calculatePlayerScore = (board: (number | string | null)[]) => {
 
   // Step 2: Find joker positions that need break decisions
   // A joker needs a break decision when: before_joker >= after_joker
-  for (let i = 0; i < 20; i++) {
+  const jokerDecisions: JokerDecision[] = [];
+
+  for (let i = 0; i < n; i++) {
     if (board[i] !== '★') continue;
 
     // Find the nearest numeric value before this joker (following connections backward)
@@ -147,7 +259,7 @@ export const calculatePlayerScore = (board: (number | string | null)[]) => {
     // Find the nearest numeric value after this joker (following connections forward)
     let afterVal: number | null = null;
     let afterPos = -1;
-    for (let k = i + 1; k < 20; k++) {
+    for (let k = i + 1; k < n; k++) {
       if (board[k] === null) break;
       if (board[k] !== '★') {
         afterVal = board[k] as number;
@@ -178,8 +290,8 @@ export const calculatePlayerScore = (board: (number | string | null)[]) => {
       // Calculate sequence length if joker connects to RIGHT (after) side
       let rightLength = 1; // The joker itself
       // Count consecutive ascending going right from joker
-      for (let k = i + 1; k < 20 && board[k] !== null; k++) {
-        if (k < 19 && board[k + 1] !== null && board[k] !== '★' && board[k + 1] !== '★') {
+      for (let k = i + 1; k < n && board[k] !== null; k++) {
+        if (k < n - 1 && board[k + 1] !== null && board[k] !== '★' && board[k + 1] !== '★') {
           if ((board[k] as number) <= (board[k + 1] as number)) {
             rightLength++;
           } else {
@@ -193,171 +305,513 @@ export const calculatePlayerScore = (board: (number | string | null)[]) => {
       }
 
       // Break on the shorter side
-      if (leftLength >= rightLength) {
+      const joinsLeft = leftLength >= rightLength;
+      if (joinsLeft) {
         // Joker connects to left, break after joker
-        if (i < 19) connects[i] = false;
+        if (i < n - 1) connects[i] = false;
       } else {
         // Joker connects to right, break before joker
         if (i > 0) connects[i - 1] = false;
       }
-    }
-  }
 
-  // Step 3: Count sequences based on connection array
-  let totalScore = 0;
-  let i = 0;
-
-  while (i < 20) {
-    if (board[i] === null) {
-      i++;
-      continue;
-    }
-
-    let runLength = 1;
-    while (i < 19 && connects[i]) {
-      runLength++;
-      i++;
+      jokerDecisions.push({
+        jokerIndex: i,
+        joins: joinsLeft ? 'LEFT' : 'RIGHT',
+        beforePos,
+        afterPos,
+        leftLength,
+        rightLength
+      });
     }
-
-    totalScore += SCORE_TABLE[Math.min(runLength, SCORE_TABLE.length - 1)] || 0;
-    i++;
   }
 
-  return totalScore;
+  return { connects, jokerDecisions };
 };
 
-// Returns a Map where key = cellIndex, value = groupColorIndex (0, 1, 2...)
-// Used for coloring distinct ascending sequences with alternating colors
-export const getScoringGroups = (board: (number | string | null)[]) => {
-  const groupMap = new Map<number, number>();
-
-  // Use the same logic as calculatePlayerScore to determine connections
-  const connects: boolean[] = new Array(20).fill(false);
+// OPTIMAL: every joker is scored as whatever value maximizes the total.
+// Each stretch of filled cells is solved independently with a DP over
+// (position, value of this cell, length of the run ending here).
+const buildOptimalConnections = (board: (number | string | null)[], scoreTable: number[]) => {
+  const n = board.length;
+  const connects: boolean[] = new Array(n).fill(false);
+  const assigned: number[] = new Array(n).fill(0);
 
-  for (let i = 0; i < 19; i++) {
-    if (board[i] === null || board[i + 1] === null) {
-      connects[i] = false;
+  let segStart = 0;
+  while (segStart < n) {
+    if (board[segStart] === null) {
+      segStart++;
       continue;
     }
+    let segEnd = segStart;
+    while (segEnd < n - 1 && board[segEnd + 1] !== null) segEnd++;
 
-    const curr = board[i]!;
-    const next = board[i + 1]!;
-
-    if (curr !== '★' && next !== '★') {
-      connects[i] = (curr as number) <= (next as number);
-    } else {
-      connects[i] = true;
+    // Without a joker every connection is forced; skip the DP (the AI scores
+    // thousands of simulated boards per move)
+    if (!board.slice(segStart, segEnd + 1).includes('★')) {
+      for (let p = segStart; p < segEnd; p++) {
+        connects[p] = (board[p] as number) <= (board[p + 1] as number);
+      }
+      segStart = segEnd + 1;
+      continue;
     }
-  }
 
-  // Handle joker breaks
-  for (let i = 0; i < 20; i++) {
-    if (board[i] !== '★') continue;
+    // A joker only matters relative to its neighbours, so the numbers on this
+    // stretch plus "below everything" / "above everything" cover every outcome
+    const numbers = board
+      .slice(segStart, segEnd + 1)
+      .filter(v => v !== '★')
+      .map(v => v as number);
+    const jokerCandidates = [-Infinity, ...Array.from(new Set(numbers)).sort((a, b) => a - b), Infinity];
 
-    let beforeVal: number | null = null;
-    for (let k = i - 1; k >= 0; k--) {
-      if (board[k] === null) break;
-      if (board[k] !== '★') {
-        beforeVal = board[k] as number;
-        break;
-      }
+    const options: number[][] = [];
+    for (let p = segStart; p <= segEnd; p++) {
+      options.push(board[p] === '★' ? jokerCandidates : [board[p] as number]);
     }
 
-    let afterVal: number | null = null;
-    for (let k = i + 1; k < 20; k++) {
-      if (board[k] === null) break;
-      if (board[k] !== '★') {
-        afterVal = board[k] as number;
-        break;
-      }
-    }
+    // best[k][vi][len] = points of the runs already closed before cell k
+    type Step = { score: number; prevVi: number; prevLen: number };
+    const best: Map<string, Step>[] = options.map(() => new Map());
+    options[0].forEach((_, vi) => best[0].set(`${vi}|1`, { score: 0, prevVi: -1, prevLen: -1 }));
 
-    if (beforeVal !== null && afterVal !== null && beforeVal >= afterVal) {
-      let leftLength = 1;
-      for (let k = i - 1; k >= 0 && board[k] !== null; k--) {
-        if (k > 0 && board[k - 1] !== null && board[k] !== '★' && board[k - 1] !== '★') {
-          if ((board[k - 1] as number) <= (board[k] as number)) {
-            leftLength++;
-          } else {
-            leftLength++;
-            break;
+    for (let k = 1; k < options.length; k++) {
+      best[k - 1].forEach((step, key) => {
+        const [vi, len] = key.split('|').map(Number);
+        const prevValue = options[k - 1][vi];
+        options[k].forEach((value, nvi) => {
+          const connected = prevValue <= value;
+          const nextLen = connected ? len + 1 : 1;
+          const score = connected ? step.score : step.score + runPoints(len, scoreTable);
+          const nextKey = `${nvi}|${nextLen}`;
+          const existing = best[k].get(nextKey);
+          if (!existing || score > existing.score) {
+            best[k].set(nextKey, { score, prevVi: vi, prevLen: len });
           }
-        } else {
-          leftLength++;
-          if (board[k] !== '★') break;
-        }
-      }
+        });
+      });
+    }
 
-      let rightLength = 1;
-      for (let k = i + 1; k < 20 && board[k] !== null; k++) {
-        if (k < 19 && board[k + 1] !== null && board[k] !== '★' && board[k + 1] !== '★') {
-          if ((board[k] as number) <= (board[k + 1] as number)) {
-            rightLength++;
-          } else {
-            rightLength++;
-            break;
-          }
-        } else {
-          rightLength++;
-          if (board[k] !== '★') break;
-        }
+    // Close the final run and walk back through the best path
+    const last = options.length - 1;
+    let bestKey = '';
+    let bestTotal = -1;
+    best[last].forEach((step, key) => {
+      const total = step.score + runPoints(Number(key.split('|')[1]), scoreTable);
+      if (total > bestTotal) {
+        bestTotal = total;
+        bestKey = key;
       }
+    });
 
-      if (leftLength >= rightLength) {
-        if (i < 19) connects[i] = false;
-      } else {
-        if (i > 0) connects[i - 1] = false;
-      }
+    let [vi, len] = bestKey.split('|').map(Number);
+    for (let k = last; k >= 0; k--) {
+      assigned[segStart + k] = options[k][vi];
+      const step = best[k].get(`${vi}|${len}`)!;
+      vi = step.prevVi;
+      len = step.prevLen;
     }
+    for (let p = segStart; p < segEnd; p++) {
+      connects[p] = assigned[p] <= assigned[p + 1];
+    }
+
+    segStart = segEnd + 1;
   }
 
-  // Build groups from connections
-  let groupCounter = 0;
+  const jokerDecisions: JokerDecision[] = [];
+  for (let i = 0; i < n; i++) {
+    if (board[i] !== '★') continue;
+    const left = i > 0 && connects[i - 1];
+    const right = i < n - 1 && connects[i];
+    jokerDecisions.push({
+      jokerIndex: i,
+      joins: left && right ? 'BOTH' : left ? 'LEFT' : right ? 'RIGHT' : 'NONE',
+      assignedValue: assigned[i]
+    });
+  }
+
+  return { connects, jokerDecisions };
+};
+
+// Single source of truth for scoring: splits the board into ascending runs,
+// records how each joker was resolved and totals the points.
+// calculatePlayerScore and getScoringGroups are thin views over this.
+// Rules always come from getScoringRules, so legacy games keep their joker rule.
+export const analyzeBoard = (board: (number | string | null)[], rules: ScoringRules): BoardAnalysis => {
+  const n = board.length;
+  const { scoreTable } = rules;
+  const { connects, jokerDecisions } = rules.jokerRule === 'SHORTER_SIDE_BREAK'
+    ? buildShorterSideConnections(board)
+    : buildOptimalConnections(board, scoreTable);
+
+  // Collect runs based on connection array
+  const runs: ScoringRun[] = [];
   let i = 0;
 
-  while (i < 20) {
+  while (i < n) {
     if (board[i] === null) {
       i++;
       continue;
     }
 
-    const currentSequence: number[] = [i];
-    while (i < 19 && connects[i]) {
+    const start = i;
+    while (i < n - 1 && connects[i]) {
       i++;
-      currentSequence.push(i);
-    }
-
-    // Only assign a group color if it's a scoring sequence (length >= 2)
-    if (currentSequence.length >= 2) {
-      currentSequence.forEach(idx => groupMap.set(idx, groupCounter));
-      groupCounter++;
     }
 
+    const length = i - start + 1;
+    runs.push({
+      start,
+      end: i,
+      length,
+      points: runPoints(length, scoreTable)
+    });
     i++;
   }
 
-  return groupMap;
+  // Color groups - only scoring sequences (length >= 2) get a group,
+  // numbered in board order so adjacent runs alternate colors
+  const scoringGroups = new Map<number, number>();
+  runs
+    .filter(run => run.length >= 2)
+    .forEach((run, groupId) => {
+      for (let idx = run.start; idx <= run.end; idx++) {
+        scoringGroups.set(idx, groupId);
+      }
+    });
+
+  return {
+    runs,
+    jokerDecisions,
+    scoringGroups,
+    totalScore: runs.reduce((sum, run) => sum + run.points, 0)
+  };
+};
+
+export const calculatePlayerScore = (board: (number | string | null)[], rules: ScoringRules) => {
+  return analyzeBoard(board, rules).totalScore;
+};
+
+// What placing `value` at `position` would do to the board: new total, the
+// runs it connects and the ones it breaks apart (jokers may be re-resolved)
+export const previewPlacement = (
+  board: (number | string | null)[],
+  value: number | string,
+  position: number,
+  rules: ScoringRules
+): PlacementPreview => {
+  const before = analyzeBoard(board, rules);
+  const trial = [...board];
+  trial[position] = value;
+  const after = analyzeBoard(trial, rules);
+
+  const run = after.runs.find(r => r.start <= position && position <= r.end) as ScoringRun;
+  const holdsTogether = (old: ScoringRun) => after.runs.some(r => r.start <= old.start && old.end <= r.end);
+  const blockedSides: ('LEFT' | 'RIGHT')[] = [];
+  if (position > 0 && board[position - 1] !== null && run.start === position) blockedSides.push('LEFT');
+  if (position < board.length - 1 && board[position + 1] !== null && run.end === position) blockedSides.push('RIGHT');
+
+  return {
+    position,
+    score: after.totalScore,
+    delta: after.totalScore - before.totalScore,
+    run,
+    joined: before.runs.filter(r => r.start >= run.start && r.end <= run.end),
+    broken: before.runs.filter(r => r.length >= 2 && !holdsTogether(r)),
+    blockedSides
+  };
+};
+
+// Returns a Map where key = cellIndex, value = groupColorIndex (0, 1, 2...)
+// Used for coloring distinct ascending sequences with alternating colors
+export const getScoringGroups = (board: (number | string | null)[], rules: ScoringRules) => {
+  return analyzeBoard(board, rules).scoringGroups;
+};
+
+// Games created before the optimal joker rule have no jokerRule field and
+// keep being scored the way they were played
+export const getJokerRule = (game: Pick<GameState, 'jokerRule'>): JokerRule => {
+  return game.jokerRule || 'SHORTER_SIDE_BREAK';
+};
+
+export const getBoardSize = (game: Pick<GameState, 'boardSize'>): number => {
+  return game.boardSize || DEFAULT_BOARD_SIZE;
+};
+
+export const getScoreTable = (game: Pick<GameState, 'scoreTable'>): number[] => {
+  return Array.isArray(game.scoreTable) && game.scoreTable.length > 1 ? game.scoreTable : DEFAULT_SCORE_TABLE;
+};
+
+export const getDeckSpec = (game: Pick<GameState, 'deckSpec'>): DeckSpec => {
+  return game.deckSpec && Array.isArray(game.deckSpec.ranges) ? game.deckSpec : CLASSIC_DECK;
+};
+
+// Cards not yet dealt: the full deck minus every number already submitted.
+// Public information, so AI teams and players may both use it.
+export const getRemainingDeck = (game: Pick<GameState, 'availableNumbers' | 'usedNumbers'>): (number | string)[] => {
+  const remaining = [...(Array.isArray(game.availableNumbers) ? game.availableNumbers : [])];
+  (Array.isArray(game.usedNumbers) ? game.usedNumbers : []).forEach(used => {
+    const idx = remaining.indexOf(used);
+    if (idx !== -1) remaining.splice(idx, 1);
+  });
+  return remaining;
+};
+
+// Copies left of every card value in the deck (including used-up ones), numbers ascending then jokers
+export const countRemainingCards = (game: Pick<GameState, 'availableNumbers' | 'usedNumbers'>): { value: number | string; count: number }[] => {
+  const deck = Array.isArray(game.availableNumbers) ? game.availableNumbers : [];
+  const counts = new Map<number | string, number>();
+  deck.forEach(card => counts.set(card, 0));
+  getRemainingDeck(game).forEach(card => counts.set(card, (counts.get(card) || 0) + 1));
+  return [...counts.entries()]
+    .map(([value, count]) => ({ value, count }))
+    .sort((a, b) => {
+      if (typeof a.value === 'number' && typeof b.value === 'number') return a.value - b.value;
+      return typeof a.value === 'number' ? -1 : typeof b.value === 'number' ? 1 : 0;
+    });
+};
+
+// Chance that the next card is a number in [low, high] (equal values still
+// connect, so both ends count) and, separately, that it is a joker
+export const getNextCardOdds = (remaining: (number | string)[], low: number, high: number) => {
+  if (remaining.length === 0) return { inRange: 0, joker: 0 };
+  const inRange = remaining.filter(card => typeof card === 'number' && card >= low && card <= high).length;
+  const jokers = remaining.filter(card => typeof card !== 'number').length;
+  return { inRange: inRange / remaining.length, joker: jokers / remaining.length };
+};
+
+// Values an empty cell can take while staying in order with the nearest
+// numbers on either side (jokers are skipped; ±Infinity = no bound)
+export const getCellFitRange = (board: (number | string | null)[], index: number) => {
+  let low = -Infinity;
+  let high = Infinity;
+  for (let k = index - 1; k >= 0; k--) {
+    const cell = board[k];
+    if (typeof cell === 'number') { low = cell; break; }
+  }
+  for (let k = index + 1; k < board.length; k++) {
+    const cell = board[k];
+    if (typeof cell === 'number') { high = cell; break; }
+  }
+  return { low, high };
+};
+
+export const getAIDifficulty = (game: Pick<GameState, 'aiDifficulty'>): AIDifficulty => {
+  return game.aiDifficulty || 'MONTE_CARLO';
+};
+
+export const getDecisionMode = (game: Pick<GameState, 'decisionMode'>): TeamDecisionMode => {
+  return game.decisionMode || 'FIRST_CLICK';
+};
+
+export const PLAYER_AIDS: { id: PlayerAid; label: string; description: string }[] = [
+  { id: 'PLACEMENT_PREVIEW', label: '배치 미리보기', description: '확정 전 점수 변화와 추천/비추천 칸 표시' },
+  { id: 'DECK_TRACKER', label: '남은 카드', description: '남은 숫자별 장수와 다음 숫자 확률 표시' }
+];
+
+export const hasPlayerAid = (game: Pick<GameState, 'playerAids'>, aid: PlayerAid): boolean => {
+  return Array.isArray(game.playerAids) && game.playerAids.includes(aid);
 };
 
-export const getScoringIndices = (board: (number | string | null)[]) => {
+// Everything analyzeBoard needs to score a board of this game
+export const getScoringRules = (game: Pick<GameState, 'jokerRule' | 'scoreTable'>): ScoringRules => ({
+  jokerRule: getJokerRule(game),
+  scoreTable: getScoreTable(game)
+});
+
+// Classic point curve cut down to a board of the given size
+export const getDefaultScoreTable = (boardSize: number): number[] => {
+  return DEFAULT_SCORE_TABLE.slice(0, Math.max(boardSize, 1) + 1);
+};
+
+export const getScoringIndices = (board: (number | string | null)[], rules: ScoringRules) => {
     // Legacy support or simple boolean check
-    const map = getScoringGroups(board);
+    const map = getScoringGroups(board, rules);
     return new Set(map.keys());
 }
 
+// --- TEAM DECISIONS ---
+
+export const TEAM_DECISION_MODES: { id: TeamDecisionMode; label: string; description: string }[] = [
+  { id: 'FIRST_CLICK', label: '자유 배치', description: '팀원 누구나 바로 배치 확정' },
+  { id: 'MAJORITY', label: '과반수 투표', description: '과반수가 같은 칸을 제안하면 확정' },
+  { id: 'UNANIMOUS', label: '만장일치', description: '팀원 전원이 같은 칸을 제안하면 확정' },
+  { id: 'CAPTAIN', label: '팀장 확정', description: '팀원은 제안하고 팀장이 확정' }
+];
+
+export const getDecisionModeLabel = (id: TeamDecisionMode) => TEAM_DECISION_MODES.find(m => m.id === id)?.label || id;
+
+// The member allowed to confirm in CAPTAIN mode. Without an appointed (or
+// elected) captain still on the team, the first member to join leads.
+export const getTeamCaptainId = (team: Pick<Team, 'players' | 'captainId'>): string | null => {
+  const players = Array.isArray(team.players) ? team.players : [];
+  if (team.captainId && players.some(p => p.id === team.captainId)) return team.captainId;
+  return players[0]?.id ?? null;
+};
+
+export const getTeamViceCaptainId = (team: Pick<Team, 'players' | 'captainId' | 'viceCaptainId'>): string | null => {
+  const players = Array.isArray(team.players) ? team.players : [];
+  const viceId = team.viceCaptainId;
+  return viceId && viceId !== getTeamCaptainId(team) && players.some(p => p.id === viceId) ? viceId : null;
+};
+
+// Lobby election standings: candidate id -> votes from current members
+export const getCaptainVoteCounts = (team: Pick<Team, 'players' | 'captainVotes'>): Map<string, number> => {
+  const memberIds = new Set((Array.isArray(team.players) ? team.players : []).map(p => p.id));
+  const counts = new Map<string, number>();
+  Object.entries(team.captainVotes || {}).forEach(([voterId, candidateId]) => {
+    if (!memberIds.has(voterId) || !memberIds.has(candidateId)) return;
+    counts.set(candidateId, (counts.get(candidateId) || 0) + 1);
+  });
+  return counts;
+};
+
+// Live proposals of the given round from current members (withdrawn ones excluded)
+export const getRoundProposals = (team: Pick<Team, 'players' | 'proposals'>, round: number): PlacementProposal[] => {
+  const memberIds = new Set((Array.isArray(team.players) ? team.players : []).map(p => p.id));
+  return Object.values(team.proposals || {}).filter(p =>
+    p && p.round === round && typeof p.position === 'number' && memberIds.has(p.playerId)
+  );
+};
+
+// Proposed cells with their supporters, most votes first
+export const getProposalTally = (team: Pick<Team, 'players' | 'proposals'>, round: number) => {
+  const tally = new Map<number, string[]>();
+  getRoundProposals(team, round).forEach(p => {
+    tally.set(p.position as number, [...(tally.get(p.position as number) || []), p.playerName]);
+  });
+  return [...tally.entries()]
+    .map(([position, names]) => ({ position, votes: names.length, names }))
+    .sort((a, b) => b.votes - a.votes || a.position - b.position);
+};
+
+// --- GAME PHASE ---
+
+const GAME_PHASE_LABELS: Record<GamePhase, string> = {
+  LOBBY: '대기중',
+  RUNNING: '진행중',
+  PAUSED: '일시정지',
+  ENDED: '종료됨',
+  ABORTED: '조기 종료'
+};
+
+// Games saved before phases existed only carry the two flags
+export const getGamePhase = (game: Pick<GameState, 'phase' | 'gameStarted' | 'gameEnded'>): GamePhase => {
+  if (game.phase) return game.phase;
+  if (game.gameEnded) return 'ENDED';
+  return game.gameStarted ? 'RUNNING' : 'LOBBY';
+};
+
+export const getGamePhaseLabel = (phase: GamePhase) => GAME_PHASE_LABELS[phase];
+
+// What the lobby needs to list a room and its joinable teams
+export const buildGameIndexEntry = (game: GameState): GameIndexEntry => ({
+  gameId: generateGameId(game.companyName),
+  companyName: game.companyName,
+  teamCount: game.teamCount,
+  phase: getGamePhase(game),
+  creatorId: game.creatorId,
+  createdAt: game.createdAt,
+  teams: (Array.isArray(game.teams) ? game.teams : []).map(t => ({
+    teamNumber: t.teamNumber,
+    playerCount: (Array.isArray(t.players) ? t.players : []).length,
+    isAI: t.isAI === true
+  }))
+});
+
+// --- REMATCH ---
+
+export const getGameNumber = (game: Pick<GameState, 'gameNumber'>): number => game.gameNumber || 1;
+
+export const getArchivedGames = (game: Pick<GameState, 'archivedGames'>): GameState[] => {
+  return Array.isArray(game.archivedGames) ? game.archivedGames : [];
+};
+
+// --- REVEAL UNDO ---
+
+// Teams (AI ones included) that already put the current number on their
+// board; undoing the reveal takes it off theirs too
+export const getTeamsHoldingCurrentNumber = (game: GameState): Team[] => {
+  const teams = Array.isArray(game.teams) ? game.teams : [];
+  return teams.filter(t =>
+    (Array.isArray(t.placements) ? t.placements : []).some(p => p.round === game.currentRound)
+  );
+};
+
+// --- ROUND TIMER ---
+
+export const MAX_PLACEMENT_TIME_LIMIT = 600; // seconds
+
+export const TIMEOUT_POLICIES: { id: TimeoutPolicy; label: string; description: string }[] = [
+  { id: 'WAIT', label: '계속 대기', description: '시간이 지나도 팀이 배치할 때까지 기다림' },
+  { id: 'FIRST_EMPTY', label: '첫 빈 칸 배치', description: '남은 팀은 가장 앞의 빈 칸에 자동 배치' },
+  { id: 'AI_PLACE', label: 'AI 대리 배치', description: '남은 팀은 AI 전략으로 자동 배치' },
+  { id: 'DISCARD', label: '숫자 버림', description: '남은 팀은 이번 숫자를 배치하지 못함' }
+];
+
+export const getTimeoutPolicy = (game: Pick<GameState, 'timeoutPolicy'>): TimeoutPolicy => {
+  return game.timeoutPolicy || 'WAIT';
+};
+
+export const getTimeoutPolicyLabel = (id: TimeoutPolicy) => TIMEOUT_POLICIES.find(p => p.id === id)?.label || id;
+
+// Milliseconds left on a round timer at the given time (never below 0)
+export const getTimerRemainingMs = (timer: RoundTimer | null | undefined, nowMs: number): number => {
+  if (!timer) return 0;
+  if (timer.paused || !timer.startedAt) return Math.max(timer.remainingMs, 0);
+  return Math.max(timer.remainingMs - (nowMs - new Date(timer.startedAt).getTime()), 0);
+};
+
+// --- BOARD LAYOUT ---
+// Boards are drawn as a snake around a center panel: left-to-right along the
+// top row, down the right column, then right-to-left along the bottom row.
+// That uses 2 * cols + (rows - 2) cells; rows is picked to keep roughly the
+// classic 8x6 proportions (20 cells -> 8 x 6, 15 -> 6 x 5, 12 -> 5 x 4).
+export const getBoardLayout = (boardSize: number): { cols: number; rows: number } => {
+  let rows = Math.max(3, Math.round((3 * (boardSize + 2)) / 11));
+  if ((boardSize - rows) % 2 !== 0) rows++;
+  return { cols: (boardSize - rows + 2) / 2, rows };
+};
+
+export const getSnakeCellStyle = (index: number, layout: { cols: number; rows: number }) => {
+  const { cols, rows } = layout;
+  let colStart, rowStart;
+  if (index < cols) {
+    colStart = index + 1;
+    rowStart = 1;
+  } else if (index < cols + rows - 2) {
+    colStart = cols;
+    rowStart = (index - cols) + 2;
+  } else {
+    colStart = cols - (index - (cols + rows - 2));
+    rowStart = rows;
+  }
+  return { gridColumnStart: colStart, gridRowStart: rowStart };
+};
+
+// Grid container and center panel styles matching getSnakeCellStyle
+export const getBoardGridStyle = (layout: { cols: number; rows: number }) => ({
+  gridTemplateColumns: `repeat(${layout.cols}, minmax(0, 1fr))`,
+  gridTemplateRows: `repeat(${layout.rows}, minmax(0, 1fr))`
+});
+
+export const getBoardCenterStyle = (layout: { cols: number; rows: number }) => ({
+  gridColumn: `1 / ${layout.cols}`,
+  gridRow: `2 / ${layout.rows}`
+});
+
 export const checkGameEnd = (gameData: GameState) => {
   const safeTeams = Array.isArray(gameData.teams) ? gameData.teams : [];
   const teamsWithPlayers = safeTeams.filter(t => (Array.isArray(t.players) ? t.players : []).length > 0);
 
-  // 20 rounds complete
-  if (gameData.currentRound >= 20) {
+  // One round per board cell
+  const boardSize = getBoardSize(gameData);
+  if (gameData.currentRound >= boardSize) {
     return true;
   }
 
   // All active boards full
   let allBoardsFull = true;
   for (let i = 0; i < teamsWithPlayers.length; i++) {
-    const board = restoreBoardArray(teamsWithPlayers[i].board);
+    const board = restoreBoardArray(teamsWithPlayers[i].board, boardSize);
     for (let j = 0; j < board.length; j++) {
       if (board[j] === null) {
         allBoardsFull = false;
@@ -370,7 +824,133 @@ export const checkGameEnd = (gameData: GameState) => {
   return allBoardsFull;
 };
 
-export const calculateFinalRanking = (gameData: GameState) => {
+// --- HINDSIGHT OPTIMUM ---
+// With the whole sequence known in advance the arrival order no longer
+// matters, so the optimum is the best arrangement of the dealt numbers.
+// Jokers may stand for any dealt value or ±Infinity, as under the OPTIMAL rule.
+
+// Node budget for the search; only unusual custom score tables come near it
+const HINDSIGHT_SEARCH_LIMIT = 300000;
+
+export const calculateHindsightOptimum = (
+  numbers: (number | string)[],
+  rules: Partial<ScoringRules> = {}
+): { score: number; board: (number | string)[]; exact: boolean } => {
+  const scoreTable = rules.scoreTable || DEFAULT_SCORE_TABLE;
+  const n = numbers.length;
+  const numeric = numbers.filter((v): v is number => typeof v === 'number');
+  const values = Array.from(new Set(numeric)).sort((a, b) => a - b);
+  const counts = values.map(v => numeric.filter(x => x === v).length);
+  let jokers = n - numeric.length;
+
+  // bestSplit[m][k]: most points for m cells split into at most k runs,
+  // ignoring which numbers are available (an upper bound)
+  const bestSplit: number[][] = Array.from({ length: n + 1 }, () => Array(n + 1).fill(-Infinity));
+  for (let k = 0; k <= n; k++) bestSplit[0][k] = 0;
+  for (let m = 1; m <= n; m++) {
+    for (let k = 1; k <= n; k++) {
+      bestSplit[m][k] = bestSplit[m][k - 1];
+      for (let len = 1; len <= m; len++) {
+        bestSplit[m][k] = Math.max(bestSplit[m][k], bestSplit[m - len][k - 1] + runPoints(len, scoreTable));
+      }
+    }
+  }
+
+  // A run boundary needs a strict drop, so copies of the most frequent number
+  // cap how many runs the remaining cells can form
+  const maxRuns = (remaining: number) => remaining - Math.max(1, ...counts) + 1;
+
+  // Incumbent: everything in one ascending run (always reachable)
+  const sortedBoard: (number | string)[] = [...numeric.sort((a, b) => a - b), ...Array(jokers).fill('★')];
+  let bestScore = runPoints(n, scoreTable);
+  let bestBoard = sortedBoard;
+  if (bestScore >= bestSplit[n][maxRuns(n)]) {
+    return { score: bestScore, board: bestBoard, exact: true };
+  }
+
+  // Depth-first search placing cells left to right. `last` is the value the
+  // current run ends on and `runLength` its length so far.
+  const path: (number | string)[] = [];
+  const seen = new Map<string, number>();
+  let nodes = 0;
+  const jokerValues = [-Infinity, ...values, Infinity];
+
+  const search = (banked: number, last: number, runLength: number, remaining: number) => {
+    if (remaining === 0) {
+      const total = banked + runPoints(runLength, scoreTable);
+      if (total > bestScore) {
+        bestScore = total;
+        bestBoard = [...path];
+      }
+      return;
+    }
+    if (++nodes > HINDSIGHT_SEARCH_LIMIT) return;
+
+    const runsLeft = Math.max(maxRuns(remaining), 0);
+    let bound = -Infinity;
+    for (let extra = 0; extra <= remaining; extra++) {
+      bound = Math.max(bound, runPoints(runLength + extra, scoreTable) + bestSplit[remaining - extra][runsLeft]);
+    }
+    if (banked + bound <= bestScore) return;
+
+    // Same cards left, same open run and no more banked points: nothing new to find
+    const key = `${counts.join(',')}|${jokers}|${last}|${runLength}`;
+    if ((seen.get(key) ?? -Infinity) >= banked) return;
+    seen.set(key, banked);
+
+    const place = (value: number, label: number | string) => {
+      path.push(label);
+      if (value >= last) {
+        search(banked, value, runLength + 1, remaining - 1);
+      } else {
+        search(banked + runPoints(runLength, scoreTable), value, 1, remaining - 1);
+      }
+      path.pop();
+    };
+
+    values.forEach((value, i) => {
+      if (counts[i] === 0) return;
+      counts[i]--;
+      place(value, value);
+      counts[i]++;
+    });
+    if (jokers > 0) {
+      jokers--;
+      jokerValues.forEach(value => place(value, '★'));
+      jokers++;
+    }
+  };
+
+  search(0, -Infinity, 0, n);
+  // Past the node budget the best board found so far is only a lower bound
+  return { score: bestScore, board: bestBoard, exact: nodes <= HINDSIGHT_SEARCH_LIMIT };
+};
+
+// Hindsight optimum for the numbers dealt in a game. Never below a board a team
+// actually reached, so percentages stay within 100 even under legacy joker rules.
+// `exact` is false when the search ran out of budget and the score is a lower bound.
+export const getHindsightOptimum = (gameData: GameState): { score: number; exact: boolean } => {
+  const dealt = (Array.isArray(gameData.usedNumbers) ? gameData.usedNumbers : []).slice(0, getBoardSize(gameData));
+  const { score, exact } = calculateHindsightOptimum(dealt, getScoringRules(gameData));
+  const safeTeams = Array.isArray(gameData.teams) ? gameData.teams : [];
+  return { score: safeTeams.reduce((max, t) => Math.max(max, t.score || 0), score), exact };
+};
+
+// Stored optimum as shown to players: "at least" when the search was cut short
+export const formatHindsightOptimum = (game: Pick<GameState, 'hindsightOptimum' | 'hindsightOptimumExact'>): string =>
+  game.hindsightOptimumExact === false ? `${game.hindsightOptimum}점 이상` : `${game.hindsightOptimum}점`;
+
+// Score as a whole percentage of the hindsight optimum
+export const getPercentOfOptimum = (score: number, optimum: number): number => {
+  return optimum > 0 ? Math.round((score / optimum) * 100) : 100;
+};
+
+// Competition ranking: 1 + the number of strictly better scores, so tied teams share a rank
+const getCompetitionRank = (scores: number[], score: number) => scores.filter(s => s > score).length + 1;
+
+// The optimum is passed in when the caller already has it (the engine stores it
+// next to the ranking), so the search runs once per game
+export const calculateFinalRanking = (gameData: GameState, optimum: number = getHindsightOptimum(gameData).score) => {
   const safeTeams = Array.isArray(gameData.teams) ? gameData.teams : [];
   const teamsWithPlayers = safeTeams
     .filter(t => (Array.isArray(t.players) ? t.players : []).length > 0)
@@ -380,13 +960,100 @@ export const calculateFinalRanking = (gameData: GameState) => {
       players: Array.isArray(t.players) ? t.players : []
     }));
   
-  // Sort by score descending
-  teamsWithPlayers.sort((a, b) => b.score - a.score);
+  // Sort by score descending; tied teams share a rank and list by team number
+  teamsWithPlayers.sort((a, b) => b.score - a.score || a.teamNumber - b.teamNumber);
   
-  return teamsWithPlayers.map((t, index) => ({
-    rank: index + 1,
+  const scores = teamsWithPlayers.map(t => t.score);
+  return teamsWithPlayers.map(t => ({
+    rank: getCompetitionRank(scores, t.score),
     teamNumber: t.teamNumber,
     score: t.score,
-    players: t.players
+    players: t.players,
+    percentOfOptimum: getPercentOfOptimum(t.score, optimum)
   }));
 };
+
+// --- TOURNAMENT ---
+
+export const MAX_TOURNAMENT_GAMES = 10;
+
+export const TOURNAMENT_AGGREGATIONS: { id: TournamentAggregation; label: string; description: string }[] = [
+  { id: 'SUM', label: '점수 합계', description: '모든 게임의 점수를 더함' },
+  { id: 'BEST_OF', label: '최고 점수', description: '팀별로 가장 잘한 한 게임의 점수' },
+  { id: 'RANK_POINTS', label: '순위 점수', description: '게임마다 순위대로 점수 (꼴찌 1점)' }
+];
+
+export const getTournamentAggregationLabel = (id: TournamentAggregation) =>
+  TOURNAMENT_AGGREGATIONS.find(a => a.id === id)?.label || id;
+
+const TIE_BREAKER_LABELS: Record<TournamentTieBreaker, string> = {
+  SCORE_SUM: '점수 합계',
+  BEST_GAME: '최고 점수',
+  WINS: '1위 횟수'
+};
+
+export const getTieBreakerLabel = (id: TournamentTieBreaker) => TIE_BREAKER_LABELS[id];
+
+// Games counted so far: archived rematches plus the current one once it has ended
+export const getTournamentGames = (game: GameState): GameState[] => [
+  ...getArchivedGames(game),
+  ...(game.gameEnded ? [game] : [])
+];
+
+// Cumulative standings over finished games. Equal totals fall back to the
+// other measures (score sum, best game, wins) in that order, skipping the one
+// the aggregation already ranks by; teams equal on all of them share a rank.
+export const calculateTournamentStandings = (games: GameState[], aggregation: TournamentAggregation): TournamentStanding[] => {
+  const resultsByTeam = new Map<number, TournamentGameResult[]>();
+  games.forEach(g => {
+    const ranking = Array.isArray(g.finalRanking) && g.finalRanking.length > 0 ? g.finalRanking : calculateFinalRanking(g);
+    // Ranked again from the scores, since older games stored tied teams in different places
+    const scores = ranking.map(r => r.score);
+    ranking.forEach(r => {
+      const rank = getCompetitionRank(scores, r.score);
+      const results = resultsByTeam.get(r.teamNumber) || [];
+      results.push({
+        gameNumber: getGameNumber(g),
+        rank,
+        score: r.score,
+        points: aggregation === 'RANK_POINTS' ? ranking.length - rank + 1 : r.score
+      });
+      resultsByTeam.set(r.teamNumber, results);
+    });
+  });
+
+  const rows = Array.from(resultsByTeam.entries()).map(([teamNumber, results]) => {
+    const scores = results.map(r => r.score);
+    const keys: Record<TournamentTieBreaker, number> = {
+      SCORE_SUM: scores.reduce((sum, s) => sum + s, 0),
+      BEST_GAME: Math.max(...scores),
+      WINS: results.filter(r => r.rank === 1).length
+    };
+    const total = aggregation === 'BEST_OF' ? keys.BEST_GAME : results.reduce((sum, r) => sum + r.points, 0);
+    return { teamNumber, results, keys, total };
+  });
+
+  const breakers = (['SCORE_SUM', 'BEST_GAME', 'WINS'] as TournamentTieBreaker[]).filter(b =>
+    !(aggregation === 'SUM' && b === 'SCORE_SUM') && !(aggregation === 'BEST_OF' && b === 'BEST_GAME')
+  );
+  type Row = typeof rows[number];
+  const compare = (a: Row, b: Row) =>
+    b.total - a.total || breakers.reduce((diff, k) => diff || b.keys[k] - a.keys[k], 0);
+  rows.sort((a, b) => compare(a, b) || a.teamNumber - b.teamNumber);
+
+  const standings: TournamentStanding[] = [];
+  rows.forEach((row, i) => {
+    const above = rows[i - 1];
+    const level = !!above && compare(above, row) === 0;
+    standings.push({
+      rank: level ? standings[i - 1].rank : i + 1,
+      teamNumber: row.teamNumber,
+      total: row.total,
+      games: row.results,
+      decidedBy: above && !level && above.total === row.total
+        ? breakers.find(k => above.keys[k] !== row.keys[k]) ?? null
+        : null
+    });
+  });
+  return standings;
+};